@@ -33,20 +33,32 @@ export class SpreedlyApi implements ICredentialType {
       required: true,
       description: 'Your Spreedly Access Secret from the dashboard',
     },
+    {
+      displayName: 'Signing Secret',
+      name: 'signingSecret',
+      type: 'string',
+      typeOptions: {
+        password: true,
+      },
+      default: '',
+      description: 'The environment signing secret, used by the Spreedly Trigger to verify the signed block of each callback record',
+    },
     {
       displayName: 'Base URL',
       name: 'baseUrl',
       type: 'string',
       default: 'https://core.spreedly.com/v1',
       required: true,
-      description: 'The base URL for the Spreedly API',
+      description:
+        'The base URL for the Spreedly API. Change this to target a regional endpoint or a local stand-in API.',
     },
     {
-      displayName: 'Use Sandbox',
-      name: 'sandbox',
+      displayName: 'Sandbox Only',
+      name: 'sandboxOnly',
       type: 'boolean',
-      default: true,
-      description: 'Whether to use the Spreedly sandbox environment for testing',
+      default: false,
+      description:
+        'Whether to refuse creating or transacting against gateways that are not test or sandbox gateways',
     },
   ];
 }
\ No newline at end of file
@@ -18,3 +18,4 @@
 export * from './credentials/SpreedlyApi.credentials';
 export * from './nodes/Spreedly/Spreedly.node';
 export * from './nodes/Spreedly/SpreedlyTrigger.node';
+export * from './nodes/Spreedly/SpreedlyPollingTrigger.node';
@@ -6,16 +6,34 @@
  */
 
 import type {
+  IDataObject,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
 } from 'n8n-workflow';
 
-import { displayLicensingNotice } from './utils';
+import {
+  displayLicensingNotice,
+  isFailedOutcome,
+  shapeMetadata,
+  redactSensitiveData,
+} from './utils';
+import { spreedlyApiCredentialTest, isRedactionEnabled } from './transport';
+import { loadOptions, resourceMapping } from './methods';
+import { getErrorOutput } from './errors';
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  DEFAULT_RETRYABLE_STATUS_CODES,
+  TRANSACTION_OUTCOME_OPERATIONS,
+} from './constants';
 import { gatewayOperations, gatewayFields } from './actions/gateway';
 import { paymentMethodOperations, paymentMethodFields } from './actions/paymentMethod';
-import { transactionOperations, transactionFields } from './actions/transaction';
+import {
+  transactionOperations,
+  transactionFields,
+  withTransactionOutcome,
+} from './actions/transaction';
 import { threeDSecureOperations, threeDSecureFields } from './actions/threeDSecure';
 import { receiverOperations, receiverFields } from './actions/receiver';
 import { certificateOperations, certificateFields } from './actions/certificate';
@@ -33,11 +51,12 @@ export class Spreedly implements INodeType {
       name: 'Spreedly',
     },
     inputs: ['main'],
-    outputs: ['main'],
+    outputs: `={{ $parameter["resource"] === "transaction" && $parameter["failedTransactionHandling"] === "separateOutput" ? [{ type: "main", displayName: "Succeeded" }, { type: "main", displayName: "Failed" }] : ["main"] }}`,
     credentials: [
       {
         name: 'spreedlyApi',
         required: true,
+        testedBy: 'spreedlyApiTest',
       },
     ],
     properties: [
@@ -118,6 +137,7 @@ export class Spreedly implements INodeType {
         options: [
           { name: 'Tokenize', value: 'tokenize', description: 'Create a payment method token', action: 'Tokenize a payment method' },
           { name: 'Get', value: 'get', description: 'Get a payment method by token', action: 'Get a payment method' },
+          { name: 'Update', value: 'update', description: 'Update billing details, expiry or metadata', action: 'Update a payment method' },
           { name: 'List', value: 'list', description: 'List payment methods', action: 'List payment methods' },
           { name: 'Retain', value: 'retain', description: 'Retain a payment method', action: 'Retain a payment method' },
           { name: 'Redact', value: 'redact', description: 'Redact a payment method', action: 'Redact a payment method' },
@@ -140,6 +160,7 @@ export class Spreedly implements INodeType {
         },
         options: [
           { name: 'Purchase', value: 'purchase', description: 'Create a purchase transaction', action: 'Create a purchase' },
+          { name: 'Purchase with Failover', value: 'purchaseWithFailover', description: 'Create a purchase, falling back to the next gateway when one fails to process it', action: 'Create a purchase with gateway failover' },
           { name: 'Authorize', value: 'authorize', description: 'Authorize a transaction', action: 'Authorize a transaction' },
           { name: 'Capture', value: 'capture', description: 'Capture an authorized transaction', action: 'Capture a transaction' },
           { name: 'Void', value: 'void', description: 'Void a transaction', action: 'Void a transaction' },
@@ -227,17 +248,107 @@ export class Spreedly implements INodeType {
       ...threeDSecureFields,
       ...receiverFields,
       ...certificateFields,
+
+      // Metadata output shaping for payment methods and transactions
+      {
+        displayName: 'Metadata Output',
+        name: 'metadataOutput',
+        type: 'options',
+        displayOptions: {
+          show: {
+            resource: ['paymentMethod', 'transaction'],
+          },
+        },
+        options: [
+          { name: 'Keep', value: 'keep', description: 'Output metadata as returned by Spreedly' },
+          { name: 'Filter', value: 'filter', description: 'Keep only the listed metadata keys' },
+          { name: 'Flatten', value: 'flatten', description: 'Move metadata entries to metadata_<key> fields' },
+        ],
+        default: 'keep',
+        description: 'How metadata appears in the output',
+      },
+      {
+        displayName: 'Metadata Keys',
+        name: 'metadataKeys',
+        type: 'string',
+        displayOptions: {
+          show: {
+            resource: ['paymentMethod', 'transaction'],
+            metadataOutput: ['filter', 'flatten'],
+          },
+        },
+        default: '',
+        placeholder: 'tenant_id,campaign_id',
+        description: 'Comma-separated metadata keys to keep. Leave empty to flatten all keys.',
+      },
+
+      // Output redaction shared by all operations
+      {
+        displayName: 'Redact Sensitive Data',
+        name: 'redactSensitiveData',
+        type: 'boolean',
+        default: true,
+        description:
+          'Whether to mask card and bank account numbers, drop CVVs and scrub Authorization headers from the output. Can only be turned off with sandbox credentials.',
+      },
+
+      // Request options shared by all operations
+      {
+        displayName: 'Request Options',
+        name: 'requestOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        options: [
+          {
+            displayName: 'Max Attempts',
+            name: 'maxAttempts',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+              maxValue: 10,
+            },
+            default: DEFAULT_MAX_ATTEMPTS,
+            description:
+              'Maximum number of attempts per API call. Purchases, authorizations, general credits, captures, credits, voids and 3DS completions are only retried after confirming no transaction was created. Receiver deliveries are never retried.',
+          },
+          {
+            displayName: 'Retryable Status Codes',
+            name: 'retryableStatusCodes',
+            type: 'string',
+            default: DEFAULT_RETRYABLE_STATUS_CODES,
+            description: 'Comma-separated HTTP status codes that trigger a retry with backoff',
+          },
+        ],
+      },
     ],
   };
 
+  methods = {
+    credentialTest: {
+      spreedlyApiTest: spreedlyApiCredentialTest,
+    },
+    loadOptions,
+    resourceMapping,
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     // Display licensing notice once per node load
     displayLicensingNotice();
 
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
+    const failedData: INodeExecutionData[] = [];
     const resource = this.getNodeParameter('resource', 0) as string;
     const operation = this.getNodeParameter('operation', 0) as string;
+    const hasOutcome = resource === 'transaction' && TRANSACTION_OUTCOME_OPERATIONS.includes(operation);
+    const routeFailed =
+      hasOutcome &&
+      this.getNodeParameter('failedTransactionHandling', 0, 'passThrough') === 'separateOutput';
+    const redact = await isRedactionEnabled.call(
+      this,
+      this.getNodeParameter('redactSensitiveData', 0, true) as boolean,
+    );
 
     for (let i = 0; i < items.length; i++) {
       try {
@@ -251,7 +362,11 @@ export class Spreedly implements INodeType {
             result = await executePaymentMethodOperation.call(this, operation, i);
             break;
           case 'transaction':
-            result = await executeTransactionOperation.call(this, operation, i);
+            result = hasOutcome
+              ? await withTransactionOutcome.call(this, i, async () =>
+                  executeTransactionOperation.call(this, operation, i),
+                )
+              : await executeTransactionOperation.call(this, operation, i);
             break;
           case 'threeDSecure':
             result = await executeThreeDSecureOperation.call(this, operation, i);
@@ -266,17 +381,41 @@ export class Spreedly implements INodeType {
             throw new Error(`Unknown resource: ${resource}`);
         }
 
-        returnData.push(...result);
+        const metadataOutput = this.getNodeParameter('metadataOutput', i, 'keep') as string;
+        if (metadataOutput !== 'keep') {
+          const metadataKeys = (this.getNodeParameter('metadataKeys', i, '') as string)
+            .split(',')
+            .map((key) => key.trim())
+            .filter(Boolean);
+          result = result.map((item) => ({
+            ...item,
+            json: shapeMetadata(item.json, metadataOutput, metadataKeys),
+          }));
+        }
+
+        if (redact) {
+          result = result.map((item) => ({ ...item, json: redactSensitiveData(item.json) }));
+        }
+
+        for (const item of result) {
+          const outcome = item.json.outcome as IDataObject | undefined;
+          (routeFailed && outcome && isFailedOutcome(outcome) ? failedData : returnData).push(item);
+        }
       } catch (error: any) {
         if (this.continueOnFail()) {
-          returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+          const errorOutput = getErrorOutput(error);
+          // Errors must never reach the Succeeded output
+          (routeFailed ? failedData : returnData).push({
+            json: redact ? redactSensitiveData(errorOutput) : errorOutput,
+            pairedItem: { item: i },
+          });
           continue;
         }
         throw error;
       }
     }
 
-    return [returnData];
+    return routeFailed ? [returnData, failedData] : [returnData];
   }
 }
 
@@ -314,6 +453,8 @@ async function executePaymentMethodOperation(
       return paymentMethodOperations.tokenize.call(this, i);
     case 'get':
       return paymentMethodOperations.get.call(this, i);
+    case 'update':
+      return paymentMethodOperations.update.call(this, i);
     case 'list':
       return paymentMethodOperations.list.call(this, i);
     case 'retain':
@@ -337,6 +478,8 @@ async function executeTransactionOperation(
   switch (operation) {
     case 'purchase':
       return transactionOperations.purchase.call(this, i);
+    case 'purchaseWithFailover':
+      return transactionOperations.purchaseWithFailover.call(this, i);
     case 'authorize':
       return transactionOperations.authorize.call(this, i);
     case 'capture':
@@ -0,0 +1,322 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  IDataObject,
+  IPollFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeDescription,
+} from 'n8n-workflow';
+
+import {
+  displayLicensingNotice,
+  getEventType,
+  matchesTransactionFilters,
+  redactSensitiveData,
+  toDisplayName,
+} from './utils';
+import { isRedactionEnabled, spreedlyApiRequest, spreedlyApiRequestAllItems } from './transport';
+import {
+  MAX_PAGE_SIZE,
+  MAX_PENDING_TRANSACTION_RECHECKS,
+  NON_TERMINAL_TRANSACTION_STATES,
+  PENDING_TRANSACTION_RECHECK_HOURS,
+  POLLING_RESOURCES,
+  TRANSACTION_STATES,
+  TRANSACTION_TYPES,
+} from './constants';
+
+/**
+ * Fetches records created after the since_token cursor kept in static data and advances it.
+ * The first poll only records the newest token, so existing records are not emitted.
+ */
+async function pollSinceToken(
+  this: IPollFunctions,
+  cursorKey: string,
+  endpoint: string,
+  propertyName: string,
+  filter: (record: IDataObject) => boolean,
+): Promise<IDataObject[]> {
+  // Manual runs show the most recent matching record without moving the cursor
+  if (this.getMode() === 'manual') {
+    return spreedlyApiRequestAllItems.call(this, 'GET', endpoint, propertyName, {}, {}, {
+      order: 'desc',
+      pageSize: MAX_PAGE_SIZE,
+      limit: 1,
+      maxPages: 5,
+      filter,
+    });
+  }
+
+  const staticData = this.getWorkflowStaticData('node');
+  if (!(cursorKey in staticData)) {
+    const [latest] = await spreedlyApiRequestAllItems.call(
+      this,
+      'GET',
+      endpoint,
+      propertyName,
+      {},
+      {},
+      { order: 'desc', limit: 1 },
+    );
+    staticData[cursorKey] = (latest?.token as string) ?? null;
+    return [];
+  }
+
+  const cursor = staticData[cursorKey] as string | null;
+  const records: IDataObject[] = await spreedlyApiRequestAllItems.call(
+    this,
+    'GET',
+    endpoint,
+    propertyName,
+    {},
+    cursor ? { since_token: cursor } : {},
+    { order: 'asc', pageSize: MAX_PAGE_SIZE },
+  );
+
+  // Advance past every fetched record, including ones the filter drops
+  if (records.length > 0) {
+    staticData[cursorKey] = records[records.length - 1].token as string;
+  }
+  return records.filter(filter);
+}
+
+/**
+ * Re-checks pending transactions the filters skipped on earlier polls, returning the ones that
+ * have since settled into a matching state, and remembers the newly skipped ones.
+ * Transactions are dropped once settled, after PENDING_TRANSACTION_RECHECK_HOURS, or when more
+ * than MAX_PENDING_TRANSACTION_RECHECKS are waiting.
+ */
+async function recheckPendingTransactions(
+  this: IPollFunctions,
+  filters: IDataObject,
+  skipped: IDataObject[],
+): Promise<IDataObject[]> {
+  const staticData = this.getWorkflowStaticData('node');
+  const pending: IDataObject = { ...((staticData.pendingTransactions as IDataObject) ?? {}) };
+  const now = Date.now();
+  const settled: IDataObject[] = [];
+
+  for (const [token, firstSeenAt] of Object.entries(pending)) {
+    if ((firstSeenAt as number) < now - PENDING_TRANSACTION_RECHECK_HOURS * 3600000) {
+      delete pending[token];
+      continue;
+    }
+
+    const response = await spreedlyApiRequest.call(this, 'GET', `/transactions/${token}.json`);
+    const transaction = (response.transaction as IDataObject) || {};
+    if (NON_TERMINAL_TRANSACTION_STATES.includes(transaction.state as string)) {
+      continue;
+    }
+    delete pending[token];
+    if (matchesTransactionFilters(transaction, filters)) {
+      settled.push(transaction);
+    }
+  }
+
+  for (const transaction of skipped) {
+    pending[transaction.token as string] = now;
+  }
+
+  // Keep the most recent transactions when too many are waiting
+  const tokens = Object.keys(pending);
+  for (const token of tokens.slice(0, tokens.length - MAX_PENDING_TRANSACTION_RECHECKS)) {
+    delete pending[token];
+  }
+  staticData.pendingTransactions = pending;
+  return settled;
+}
+
+/**
+ * Compares every gateway's updated_at with the previous poll to find new or changed gateways
+ */
+async function pollChangedGateways(this: IPollFunctions): Promise<IDataObject[]> {
+  const gateways: IDataObject[] = await spreedlyApiRequestAllItems.call(
+    this,
+    'GET',
+    '/gateways.json',
+    'gateways',
+    {},
+    {},
+    { order: 'asc', pageSize: MAX_PAGE_SIZE },
+  );
+
+  if (this.getMode() === 'manual') {
+    return gateways.slice(-1);
+  }
+
+  const staticData = this.getWorkflowStaticData('node');
+  const previousVersions = staticData.gatewayVersions as IDataObject | undefined;
+  const versions: IDataObject = {};
+  for (const gateway of gateways) {
+    versions[gateway.token as string] = gateway.updated_at;
+  }
+  staticData.gatewayVersions = versions;
+
+  if (!previousVersions) {
+    return [];
+  }
+  return gateways.filter(
+    (gateway) => previousVersions[gateway.token as string] !== gateway.updated_at,
+  );
+}
+
+export class SpreedlyPollingTrigger implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Spreedly Polling Trigger',
+    name: 'spreedlyPollingTrigger',
+    icon: 'file:spreedly.svg',
+    group: ['trigger'],
+    version: 1,
+    subtitle: '={{$parameter["resources"].join(", ")}}',
+    description:
+      'Poll Spreedly for new transactions, payment methods and gateway changes, without a public webhook URL',
+    defaults: {
+      name: 'Spreedly Polling Trigger',
+    },
+    polling: true,
+    inputs: [],
+    outputs: ['main'],
+    credentials: [
+      {
+        name: 'spreedlyApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Watch',
+        name: 'resources',
+        type: 'multiOptions',
+        options: [...POLLING_RESOURCES],
+        default: ['transaction'],
+        required: true,
+        description: 'The records to check for on every poll',
+      },
+      {
+        displayName: 'Transaction Filters',
+        name: 'transactionFilters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        options: [
+          {
+            displayName: 'States',
+            name: 'states',
+            type: 'multiOptions',
+            options: TRANSACTION_STATES.map((state) => ({
+              name: toDisplayName(state),
+              value: state,
+            })),
+            default: [],
+            description:
+              'Only emit transactions in these states. Pending transactions are re-checked on later polls and emitted once they settle into a selected state, for up to 72 hours.',
+          },
+          {
+            displayName: 'Transaction Types',
+            name: 'transactionTypes',
+            type: 'multiOptions',
+            options: [...TRANSACTION_TYPES],
+            default: [],
+            description: 'Only emit transactions of these types',
+          },
+        ],
+      },
+      {
+        displayName: 'Redact Sensitive Data',
+        name: 'redactSensitiveData',
+        type: 'boolean',
+        default: true,
+        description:
+          'Whether to mask card and bank account numbers and drop CVVs in the emitted records. Can only be turned off with sandbox credentials.',
+      },
+      {
+        displayName:
+          'The first poll only records where to start, so records that already exist are not emitted. Transactions and payment methods are picked up in creation order; changes to existing payment methods are not detected.',
+        name: 'pollingNotice',
+        type: 'notice',
+        default: '',
+      },
+    ],
+  };
+
+  async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+    // Display licensing notice once per node load
+    displayLicensingNotice();
+
+    const resources = this.getNodeParameter('resources', []) as string[];
+    const transactionFilters = this.getNodeParameter('transactionFilters', {}) as IDataObject;
+    const polledAt = new Date().toISOString();
+
+    const events: IDataObject[] = [];
+    const addEvents = (type: string, records: IDataObject[]) => {
+      for (const record of records) {
+        events.push({ event: getEventType(type, record), type, data: record, polledAt });
+      }
+    };
+
+    if (resources.includes('transaction')) {
+      // Pending transactions the States filter skips may settle into a matching state later
+      const skippedPending: IDataObject[] = [];
+      const transactions = await pollSinceToken.call(
+        this,
+        'transactionCursor',
+        '/transactions.json',
+        'transactions',
+        (transaction) => {
+          if (matchesTransactionFilters(transaction, transactionFilters)) {
+            return true;
+          }
+          if (
+            NON_TERMINAL_TRANSACTION_STATES.includes(transaction.state as string) &&
+            matchesTransactionFilters(transaction, { ...transactionFilters, states: [] })
+          ) {
+            skippedPending.push(transaction);
+          }
+          return false;
+        },
+      );
+      if (this.getMode() !== 'manual') {
+        addEvents(
+          'transaction',
+          await recheckPendingTransactions.call(this, transactionFilters, skippedPending),
+        );
+      }
+      addEvents('transaction', transactions);
+    }
+    if (resources.includes('paymentMethod')) {
+      addEvents(
+        'payment_method',
+        await pollSinceToken.call(
+          this,
+          'paymentMethodCursor',
+          '/payment_methods.json',
+          'payment_methods',
+          () => true,
+        ),
+      );
+    }
+    if (resources.includes('gateway')) {
+      addEvents('gateway', await pollChangedGateways.call(this));
+    }
+
+    if (events.length === 0) {
+      return null;
+    }
+
+    const redact = await isRedactionEnabled.call(
+      this,
+      this.getNodeParameter('redactSensitiveData', true) as boolean,
+    );
+    return [
+      events.map((event) => ({
+        json: redact ? redactSensitiveData(event) : event,
+      })),
+    ];
+  }
+}
@@ -6,14 +6,44 @@
  */
 
 import type {
+  IDataObject,
+  IHookFunctions,
   IWebhookFunctions,
   INodeType,
   INodeTypeDescription,
   IWebhookResponseData,
 } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 
-import { displayLicensingNotice, parseWebhookPayload } from './utils';
-import { WEBHOOK_EVENT_TYPES } from './constants';
+import {
+  checkEventDelivery,
+  displayLicensingNotice,
+  getEventIdentity,
+  getEventType,
+  parseWebhookPayloads,
+  redactSensitiveData,
+  verifySignedRecord,
+} from './utils';
+import { isRedactionEnabled } from './transport';
+import {
+  DEFAULT_DEDUPLICATION_WINDOW_MINUTES,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_SIGNATURE_MODES,
+} from './constants';
+
+const MISSING_SIGNING_SECRET_MESSAGE =
+  'Signature Verification is set to Reject Invalid but the Spreedly credential has no Signing Secret';
+
+/**
+ * Answers the callback with a 401 without starting the workflow
+ */
+function rejectDelivery(this: IWebhookFunctions, message: string): IWebhookResponseData {
+  const res = this.getResponseObject();
+  res.status(401).send(message).end();
+  return {
+    noWebhookResponse: true,
+  };
+}
 
 export class SpreedlyTrigger implements INodeType {
   description: INodeTypeDescription = {
@@ -21,7 +51,8 @@ export class SpreedlyTrigger implements INodeType {
     name: 'spreedlyTrigger',
     icon: 'file:spreedly.svg',
     group: ['trigger'],
-    version: 1,
+    version: [1, 2],
+    defaultVersion: 2,
     subtitle: '={{$parameter["events"].join(", ")}}',
     description: 'Receive Spreedly webhook events for transactions, payment methods, and more',
     defaults: {
@@ -29,6 +60,12 @@ export class SpreedlyTrigger implements INodeType {
     },
     inputs: [],
     outputs: ['main'],
+    credentials: [
+      {
+        name: 'spreedlyApi',
+        required: true,
+      },
+    ],
     webhooks: [
       {
         name: 'default',
@@ -47,6 +84,78 @@ export class SpreedlyTrigger implements INodeType {
         required: true,
         description: 'The events to listen for. Select all that apply.',
       },
+      {
+        displayName: 'Signature Verification',
+        name: 'signatureVerification',
+        type: 'options',
+        options: [...WEBHOOK_SIGNATURE_MODES],
+        default: 'reject',
+        description:
+          'How to handle callback records whose signed block does not match the Signing Secret of the credential',
+        displayOptions: {
+          show: {
+            '@version': [2],
+          },
+        },
+      },
+      {
+        displayName: 'Signature Verification',
+        name: 'signatureVerification',
+        type: 'options',
+        options: [...WEBHOOK_SIGNATURE_MODES],
+        // Nodes created before verification existed keep accepting every callback
+        default: 'off',
+        description:
+          'How to handle callback records whose signed block does not match the Signing Secret of the credential',
+        displayOptions: {
+          show: {
+            '@version': [1],
+          },
+        },
+      },
+      {
+        displayName: 'Redact Sensitive Data',
+        name: 'redactSensitiveData',
+        type: 'boolean',
+        default: true,
+        description:
+          'Whether to mask card and bank account numbers and drop CVVs in the event data, including the raw payload. Can only be turned off with sandbox credentials.',
+      },
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        options: [
+          {
+            displayName: 'Deduplicate Deliveries',
+            name: 'deduplicate',
+            type: 'boolean',
+            default: true,
+            description:
+              'Whether to skip callbacks Spreedly retries for a record whose token, updated_at and state were already processed',
+          },
+          {
+            displayName: 'Deduplication Window (Minutes)',
+            name: 'deduplicationWindow',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: DEFAULT_DEDUPLICATION_WINDOW_MINUTES,
+            description: 'How long processed deliveries are remembered',
+          },
+          {
+            displayName: 'Drop Stale Events',
+            name: 'dropStaleEvents',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether to skip callbacks older than one already processed for the same token, such as a pending transaction arriving after it succeeded',
+          },
+        ],
+      },
       {
         displayName: 'Setup Instructions',
         name: 'setupNotice',
@@ -62,86 +171,136 @@ export class SpreedlyTrigger implements INodeType {
 4. Click "Add Webhook Endpoint"
 5. Paste the webhook URL
 6. Select the events you want to receive
-7. Save the webhook configuration`,
+7. Save the webhook configuration
+8. Copy the environment signing secret into the Spreedly credential`,
       },
     ],
   };
 
+  webhookMethods = {
+    default: {
+      async checkExists(this: IHookFunctions): Promise<boolean> {
+        return false;
+      },
+      async create(this: IHookFunctions): Promise<boolean> {
+        // Without a secret every callback would be rejected, so refuse to activate instead
+        if (this.getNodeParameter('signatureVerification', 'reject') === 'reject') {
+          const credentials = await this.getCredentials('spreedlyApi');
+          if (!credentials.signingSecret) {
+            throw new NodeOperationError(this.getNode(), MISSING_SIGNING_SECRET_MESSAGE, {
+              description:
+                'Copy the environment signing secret from the Spreedly Dashboard into the credential, or set Signature Verification to Tag or Off',
+            });
+          }
+        }
+        return true;
+      },
+      async delete(this: IHookFunctions): Promise<boolean> {
+        return true;
+      },
+    },
+  };
+
   async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
     // Display licensing notice once per node load
     displayLicensingNotice();
 
     const bodyData = this.getBodyData();
     const selectedEvents = this.getNodeParameter('events') as string[];
+    const signatureMode = this.getNodeParameter('signatureVerification', 'reject') as string;
+
+    // Verify the signed block of each record against the environment signing secret
+    const records = parseWebhookPayloads(bodyData);
+    let verified: boolean[] | undefined;
+    if (signatureMode !== 'off') {
+      const credentials = await this.getCredentials('spreedlyApi');
+      const signingSecret = credentials.signingSecret as string;
 
-    // Parse the webhook payload
-    const parsedData = parseWebhookPayload(bodyData);
-
-    // Determine the event type from the payload
-    let eventType = 'unknown';
-    if (parsedData.type === 'transaction') {
-      const transaction = parsedData.data as Record<string, any>;
-      if (transaction?.succeeded === true) {
-        eventType = 'transaction.succeeded';
-      } else if (transaction?.succeeded === false) {
-        eventType = 'transaction.failed';
-      } else if (transaction?.state === 'pending') {
-        eventType = 'transaction.pending';
+      if (!signingSecret && signatureMode === 'reject') {
+        return rejectDelivery.call(this, MISSING_SIGNING_SECRET_MESSAGE);
       }
-    } else if (parsedData.type === 'payment_method') {
-      const pm = parsedData.data as Record<string, any>;
-      if (pm?.storage_state === 'retained') {
-        eventType = 'payment_method.retained';
-      } else if (pm?.storage_state === 'redacted') {
-        eventType = 'payment_method.redacted';
-      } else if (pm?.storage_state === 'cached') {
-        eventType = 'payment_method.added';
-      } else {
-        eventType = 'payment_method.updated';
+
+      verified = records.map((parsedData) =>
+        verifySignedRecord(parsedData.data as IDataObject, signingSecret),
+      );
+
+      if (signatureMode === 'reject' && verified.includes(false)) {
+        return rejectDelivery.call(this, 'Invalid Spreedly webhook signature');
       }
-    } else if (parsedData.type === 'gateway') {
-      const gw = parsedData.data as Record<string, any>;
-      if (gw?.state === 'retained') {
-        eventType = 'gateway.retained';
-      } else if (gw?.state === 'redacted') {
-        eventType = 'gateway.redacted';
-      } else {
-        eventType = 'gateway.added';
+    }
+
+    const options = this.getNodeParameter('options', {}) as IDataObject;
+    const deduplicate = (options.deduplicate as boolean) ?? true;
+    const dropStale = (options.dropStaleEvents as boolean) ?? false;
+    const windowMs =
+      ((options.deduplicationWindow as number) ?? DEFAULT_DEDUPLICATION_WINDOW_MINUTES) * 60000;
+    const staticData = this.getWorkflowStaticData('node');
+    const processedEvents = (staticData.processedEvents as IDataObject) ?? {};
+
+    // Parse the webhook payload, one event per record of a batched callback
+    const events: IDataObject[] = [];
+    for (const [index, parsedData] of records.entries()) {
+      const signatureVerified = verified?.[index];
+
+      // Determine the event type from the payload
+      const eventType = getEventType(parsedData.type as string, parsedData.data as IDataObject);
+
+      // Check if this event is one we're listening for
+      // If no events match, we still process it (filter is informational)
+      const isSelectedEvent = selectedEvents.includes(eventType) || selectedEvents.length === 0;
+      if (!isSelectedEvent) {
+        continue;
       }
-    } else if (parsedData.type === 'receiver') {
-      const rcv = parsedData.data as Record<string, any>;
-      if (rcv?.state === 'redacted') {
-        eventType = 'receiver.redacted';
-      } else {
-        eventType = 'receiver.added';
+
+      // Skip records Spreedly redelivers or delivers out of order
+      const identity = getEventIdentity(parsedData.type as string, parsedData.data as IDataObject);
+      if (identity && (deduplicate || dropStale)) {
+        const delivery = checkEventDelivery(processedEvents, identity, {
+          now: Date.now(),
+          windowMs,
+          deduplicate,
+          dropStale,
+          // Unverified deliveries must not suppress the genuine callbacks that follow
+          record: signatureVerified !== false,
+        });
+        if (delivery !== 'new') {
+          continue;
+        }
       }
-    } else if (parsedData.type === 'certificate') {
-      eventType = 'certificate.added';
-    }
 
-    // Check if this event is one we're listening for
-    // If no events match, we still process it (filter is informational)
-    const isSelectedEvent = selectedEvents.includes(eventType) || selectedEvents.length === 0;
+      events.push({
+        event: eventType,
+        ...parsedData,
+        ...(signatureVerified !== undefined && { signatureVerified }),
+        // A batched record carries only its own payload, not the whole batch
+        raw:
+          parsedData.batchId === undefined
+            ? bodyData
+            : { [parsedData.type as string]: parsedData.data },
+      });
+    }
+    if (deduplicate || dropStale) {
+      staticData.processedEvents = processedEvents;
+    }
 
-    if (!isSelectedEvent) {
-      // Return empty to skip this event
+    if (events.length === 0) {
+      // Return empty to skip this delivery
       return {
         workflowData: [[]],
       };
     }
 
+    const redact = await isRedactionEnabled.call(
+      this,
+      this.getNodeParameter('redactSensitiveData', true) as boolean,
+    );
+
     // Return the parsed webhook data
     return {
       workflowData: [
-        [
-          {
-            json: {
-              event: eventType,
-              ...parsedData,
-              raw: bodyData,
-            },
-          },
-        ],
+        events.map((eventData) => ({
+          json: redact ? redactSensitiveData(eventData) : eventData,
+        })),
       ],
     };
   }
@@ -6,8 +6,9 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { spreedlyApiRequest, spreedlyApiRequestAllItems } from '../../transport';
+import { spreedlyApiRequest, spreedlyApiRequestAllItems, toPaginationOptions } from '../../transport';
 import { simplifyResponse, prepareOutputData } from '../../utils';
+import { SORT_ORDERS, LOAD_OPTIONS_DESCRIPTION } from '../../constants';
 
 /**
  * Certificate resource operations (for Apple Pay, Google Pay)
@@ -50,20 +51,18 @@ export const certificateOperations = {
    */
   async list(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+    const listOptions = this.getNodeParameter('listOptions', i, {}) as IDataObject;
+    const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-    if (returnAll) {
-      const certificates = await spreedlyApiRequestAllItems.call(
-        this,
-        'GET',
-        '/certificates.json',
-        'certificates',
-      );
-      return prepareOutputData(certificates);
-    }
-
-    const limit = this.getNodeParameter('limit', i) as number;
-    const response = await spreedlyApiRequest.call(this, 'GET', '/certificates.json');
-    const certificates = (response.certificates || []).slice(0, limit);
+    const certificates = await spreedlyApiRequestAllItems.call(
+      this,
+      'GET',
+      '/certificates.json',
+      'certificates',
+      {},
+      {},
+      toPaginationOptions(listOptions, limit),
+    );
     return prepareOutputData(certificates);
   },
 
@@ -164,9 +163,12 @@ export const certificateFields = [
   },
   // Certificate Token
   {
-    displayName: 'Certificate Token',
+    displayName: 'Certificate Name or ID',
     name: 'certificateToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getCertificates',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -175,7 +177,7 @@ export const certificateFields = [
       },
     },
     default: '',
-    description: 'The unique token identifying the certificate',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Signed Certificate (for upload)
   {
@@ -228,6 +230,51 @@ export const certificateFields = [
     default: 20,
     description: 'Max number of results to return',
   },
+  // Options for List
+  {
+    displayName: 'Options',
+    name: 'listOptions',
+    type: 'collection' as const,
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        resource: ['certificate'],
+        operation: ['list'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Max Pages',
+        name: 'maxPages',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 100,
+        description: 'Safety cap on the number of pages fetched',
+      },
+      {
+        displayName: 'Order',
+        name: 'order',
+        type: 'options' as const,
+        options: SORT_ORDERS,
+        default: 'asc',
+        description: 'Sort order by creation date',
+      },
+      {
+        displayName: 'Page Size',
+        name: 'pageSize',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+          maxValue: 100,
+        },
+        default: 20,
+        description: 'Number of records requested per API call',
+      },
+    ],
+  },
   // Additional Fields for Create
   {
     displayName: 'Additional Fields',
@@ -6,9 +6,42 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { spreedlyApiRequest, spreedlyApiRequestAllItems } from '../../transport';
-import { simplifyResponse, prepareOutputData } from '../../utils';
-import { GATEWAY_TYPES } from '../../constants';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+  spreedlyApiRequest,
+  spreedlyApiRequestAllItems,
+  toPaginationOptions,
+  getGatewayCatalog,
+} from '../../transport';
+import {
+  simplifyResponse,
+  prepareOutputData,
+  findGatewayAuthMode,
+  getMissingGatewayCredentials,
+} from '../../utils';
+import { SORT_ORDERS, LOAD_OPTIONS_DESCRIPTION } from '../../constants';
+
+/**
+ * Reads the credential and secret values entered for the selected gateway type and auth mode
+ */
+function getGatewayCredentials(this: IExecuteFunctions, i: number): IDataObject {
+  const gatewayCredentials = this.getNodeParameter('gatewayCredentials', i, {}) as IDataObject;
+  const secretCredentials = this.getNodeParameter('gatewaySecretCredentials', i, {}) as IDataObject;
+  const values: IDataObject = { ...((gatewayCredentials?.value as IDataObject) ?? {}) };
+  for (const secret of (secretCredentials.secretValues as IDataObject[]) ?? []) {
+    if (secret.name) {
+      values[secret.name as string] = secret.value;
+    }
+  }
+
+  const credentials: IDataObject = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null && value !== '') {
+      credentials[name] = value;
+    }
+  }
+  return credentials;
+}
 
 /**
  * Gateway resource operations
@@ -19,15 +52,51 @@ export const gatewayOperations = {
    */
   async create(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const gatewayType = this.getNodeParameter('gatewayType', i) as string;
+    const authModeType = this.getNodeParameter('authMode', i, '') as string;
     const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
 
-    const body: IDataObject = {
-      gateway: {
-        gateway_type: gatewayType,
-        ...additionalFields,
-      },
+    const gateway: IDataObject = {
+      gateway_type: gatewayType,
+      ...additionalFields,
+      ...getGatewayCredentials.call(this, i),
     };
 
+    const catalog = await getGatewayCatalog.call(this);
+    const catalogEntry = catalog.find((entry) => entry.gateway_type === gatewayType);
+    const authMode = findGatewayAuthMode(catalog, gatewayType, authModeType);
+    if (catalogEntry && authMode) {
+      const missing = getMissingGatewayCredentials(authMode, gateway);
+      if (missing.length > 0) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Missing ${catalogEntry.name} credentials: ${missing.join(', ')}`,
+          {
+            itemIndex: i,
+            description: `The ${authMode.name} auth mode requires ${authMode.credentials
+              .map((credential) => credential.label)
+              .join(', ')}`,
+          },
+        );
+      }
+      // Spreedly only accepts a mode for gateways with several ways to authenticate
+      if (catalogEntry.auth_modes.length > 1) {
+        if (additionalFields.mode !== undefined) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `The Mode additional field cannot be used with ${catalogEntry.name}`,
+            {
+              itemIndex: i,
+              description:
+                'This gateway type has several auth modes, and Spreedly reads its mode as the auth mode. Remove Mode from Additional Fields and choose the Auth Mode instead.',
+            },
+          );
+        }
+        gateway.mode = authMode.auth_mode_type;
+      }
+    }
+
+    const body: IDataObject = { gateway };
+
     const response = await spreedlyApiRequest.call(this, 'POST', '/gateways.json', body);
     return prepareOutputData([simplifyResponse(response, 'gateway')]);
   },
@@ -51,20 +120,18 @@ export const gatewayOperations = {
    */
   async list(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+    const listOptions = this.getNodeParameter('listOptions', i, {}) as IDataObject;
+    const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-    if (returnAll) {
-      const gateways = await spreedlyApiRequestAllItems.call(
-        this,
-        'GET',
-        '/gateways.json',
-        'gateways',
-      );
-      return prepareOutputData(gateways);
-    }
-
-    const limit = this.getNodeParameter('limit', i) as number;
-    const response = await spreedlyApiRequest.call(this, 'GET', '/gateways.json');
-    const gateways = (response.gateways || []).slice(0, limit);
+    const gateways = await spreedlyApiRequestAllItems.call(
+      this,
+      'GET',
+      '/gateways.json',
+      'gateways',
+      {},
+      {},
+      toPaginationOptions(listOptions, limit),
+    );
     return prepareOutputData(gateways);
   },
 
@@ -123,9 +190,12 @@ export const gatewayOperations = {
 export const gatewayFields = [
   // Gateway Type for Create
   {
-    displayName: 'Gateway Type',
+    displayName: 'Gateway Type Name or ID',
     name: 'gatewayType',
     type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getGatewayTypes',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -133,15 +203,115 @@ export const gatewayFields = [
         operation: ['create'],
       },
     },
-    options: GATEWAY_TYPES,
     default: 'test',
-    description: 'The type of payment gateway to provision',
+    description: LOAD_OPTIONS_DESCRIPTION,
+  },
+  // Auth Mode for Create
+  {
+    displayName: 'Auth Mode Name or ID',
+    name: 'authMode',
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getGatewayAuthModes',
+      loadOptionsDependsOn: ['gatewayType'],
+    },
+    displayOptions: {
+      show: {
+        resource: ['gateway'],
+        operation: ['create'],
+      },
+    },
+    default: '',
+    description: LOAD_OPTIONS_DESCRIPTION,
+  },
+  // Credentials for Create
+  {
+    displayName: 'Credentials',
+    name: 'gatewayCredentials',
+    type: 'resourceMapper' as const,
+    noDataExpression: true,
+    typeOptions: {
+      loadOptionsDependsOn: ['gatewayType', 'authMode'],
+      resourceMapper: {
+        resourceMapperMethod: 'getGatewayCredentialFields',
+        mode: 'add' as const,
+        fieldWords: {
+          singular: 'credential',
+          plural: 'credentials',
+        },
+        addAllFields: true,
+        multiKeyMatch: false,
+        supportAutoMap: false,
+        noFieldsError:
+          'This auth mode needs no non-secret credentials, or the gateway is not in the gateway catalog',
+      },
+    },
+    displayOptions: {
+      show: {
+        resource: ['gateway'],
+        operation: ['create'],
+      },
+    },
+    default: {
+      mappingMode: 'defineBelow',
+      value: null,
+    },
+    description: 'Non-secret credentials required by the selected gateway type and auth mode',
+  },
+  // Secret Credentials for Create, kept in password inputs
+  {
+    displayName: 'Secret Credentials',
+    name: 'gatewaySecretCredentials',
+    type: 'fixedCollection' as const,
+    placeholder: 'Add Secret',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['gateway'],
+        operation: ['create'],
+      },
+    },
+    default: {},
+    description: 'Secrets required by the selected auth mode, such as private keys and passwords',
+    options: [
+      {
+        displayName: 'Secret',
+        name: 'secretValues',
+        values: [
+          {
+            displayName: 'Name or ID',
+            name: 'name',
+            type: 'options' as const,
+            typeOptions: {
+              loadOptionsMethod: 'getGatewaySecretCredentials',
+              loadOptionsDependsOn: ['gatewayType', 'authMode'],
+            },
+            default: '',
+            description: LOAD_OPTIONS_DESCRIPTION,
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string' as const,
+            typeOptions: {
+              password: true,
+            },
+            default: '',
+          },
+        ],
+      },
+    ],
   },
   // Gateway Token for operations that need it
   {
-    displayName: 'Gateway Token',
+    displayName: 'Gateway Name or ID',
     name: 'gatewayToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getGateways',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -150,7 +320,7 @@ export const gatewayFields = [
       },
     },
     default: '',
-    description: 'The unique token identifying the gateway',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Return All for List
   {
@@ -185,6 +355,51 @@ export const gatewayFields = [
     default: 20,
     description: 'Max number of results to return',
   },
+  // Options for List
+  {
+    displayName: 'Options',
+    name: 'listOptions',
+    type: 'collection' as const,
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        resource: ['gateway'],
+        operation: ['list'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Max Pages',
+        name: 'maxPages',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 100,
+        description: 'Safety cap on the number of pages fetched',
+      },
+      {
+        displayName: 'Order',
+        name: 'order',
+        type: 'options' as const,
+        options: SORT_ORDERS,
+        default: 'asc',
+        description: 'Sort order by creation date',
+      },
+      {
+        displayName: 'Page Size',
+        name: 'pageSize',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+          maxValue: 100,
+        },
+        default: 20,
+        description: 'Number of records requested per API call',
+      },
+    ],
+  },
   // Additional Fields for Create
   {
     displayName: 'Additional Fields',
@@ -204,7 +419,7 @@ export const gatewayFields = [
         name: 'login',
         type: 'string' as const,
         default: '',
-        description: 'Gateway login/API key',
+        description: 'Gateway login/API key, for gateways missing from the gateway catalog',
       },
       {
         displayName: 'Password',
@@ -212,7 +427,7 @@ export const gatewayFields = [
         type: 'string' as const,
         typeOptions: { password: true },
         default: '',
-        description: 'Gateway password/API secret',
+        description: 'Gateway password/API secret, for gateways missing from the gateway catalog',
       },
       {
         displayName: 'Merchant ID',
@@ -230,7 +445,15 @@ export const gatewayFields = [
           { name: 'Live', value: 'live' },
         ],
         default: 'test',
-        description: 'Gateway mode (test or live)',
+        description:
+          'Gateway mode (test or live). Not allowed for gateway types with several auth modes, where Auth Mode sets the mode.',
+      },
+      {
+        displayName: 'Sandbox',
+        name: 'sandbox',
+        type: 'boolean' as const,
+        default: false,
+        description: 'Whether the gateway credentials point at the gateway\'s own sandbox',
       },
     ],
   },
@@ -6,21 +6,62 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { spreedlyApiRequest, spreedlyApiRequestAllItems, buildCreditCardPaymentMethod, buildBankAccountPaymentMethod } from '../../transport';
-import { simplifyResponse, prepareOutputData } from '../../utils';
-import { PAYMENT_METHOD_TYPES } from '../../constants';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+  spreedlyApiRequest,
+  spreedlyApiRequestAllItems,
+  toPaginationOptions,
+  buildCreditCardPaymentMethod,
+  buildBankAccountPaymentMethod,
+  buildWalletPaymentMethod,
+  buildThirdPartyTokenPaymentMethod,
+  buildPaymentMethodUpdate,
+} from '../../transport';
+import {
+  simplifyResponse,
+  prepareOutputData,
+  metadataPairsToObject,
+  validateCreditCard,
+} from '../../utils';
+import {
+  CARD_VALIDATION_MODES,
+  GATEWAY_TYPES,
+  PAYMENT_METHOD_TYPES,
+  SORT_ORDERS,
+  LOAD_OPTIONS_DESCRIPTION,
+} from '../../constants';
+
+/**
+ * Reads the encrypted wallet token, accepting either a JSON string or an object
+ */
+function getWalletPaymentData(this: IExecuteFunctions, i: number): IDataObject {
+  const paymentData = this.getNodeParameter('paymentData', i) as string | IDataObject;
+  if (typeof paymentData !== 'string') {
+    return paymentData;
+  }
+
+  try {
+    return JSON.parse(paymentData) as IDataObject;
+  } catch {
+    throw new NodeOperationError(this.getNode(), 'Payment Data must be valid JSON', {
+      itemIndex: i,
+      description: 'Paste the encrypted payment token exactly as returned by the wallet',
+    });
+  }
+}
 
 /**
  * Payment Method resource operations
  */
 export const paymentMethodOperations = {
   /**
-   * Tokenize a new payment method (credit card or bank account)
+   * Tokenize a new payment method (card, bank account, wallet or third-party token)
    */
   async tokenize(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const paymentMethodType = this.getNodeParameter('paymentMethodType', i) as string;
 
     let paymentMethodData: IDataObject;
+    let cardValidation: IDataObject | undefined;
 
     if (paymentMethodType === 'credit_card') {
       const cardData = {
@@ -32,7 +73,39 @@ export const paymentMethodOperations = {
         lastName: this.getNodeParameter('lastName', i) as string,
         ...this.getNodeParameter('cardAdditionalFields', i) as IDataObject,
       };
+
+      const validationMode = this.getNodeParameter('cardValidation', i, 'fail') as string;
+      if (validationMode !== 'off') {
+        cardValidation = validateCreditCard(cardData);
+        const errors = cardValidation.errors as IDataObject[];
+        if (errors.length > 0 && validationMode === 'fail') {
+          throw new NodeOperationError(
+            this.getNode(),
+            `Card validation failed: ${errors.map((error) => error.message).join('; ')}`,
+            { itemIndex: i },
+          );
+        }
+        if (errors.length > 0) {
+          return prepareOutputData([{ tokenized: false, cardValidation }]);
+        }
+      }
       paymentMethodData = buildCreditCardPaymentMethod(cardData);
+    } else if (paymentMethodType === 'apple_pay' || paymentMethodType === 'google_pay') {
+      const walletData = {
+        paymentData: getWalletPaymentData.call(this, i),
+        ...(paymentMethodType === 'apple_pay' && {
+          certificateToken: this.getNodeParameter('certificateToken', i, '') as string,
+        }),
+        ...this.getNodeParameter('walletAdditionalFields', i, {}) as IDataObject,
+      };
+      paymentMethodData = buildWalletPaymentMethod(paymentMethodType, walletData);
+    } else if (paymentMethodType === 'third_party_token') {
+      const tokenData = {
+        reference: this.getNodeParameter('thirdPartyReference', i) as string,
+        gatewayType: this.getNodeParameter('thirdPartyGatewayType', i) as string,
+        ...this.getNodeParameter('thirdPartyAdditionalFields', i, {}) as IDataObject,
+      };
+      paymentMethodData = buildThirdPartyTokenPaymentMethod(tokenData);
     } else {
       const bankData = {
         routingNumber: this.getNodeParameter('routingNumber', i) as string,
@@ -45,12 +118,23 @@ export const paymentMethodOperations = {
       paymentMethodData = buildBankAccountPaymentMethod(bankData);
     }
 
+    const metadata = this.getNodeParameter('metadata', i, {}) as IDataObject;
+    const metadataValues = metadataPairsToObject(metadata.metadataValues as IDataObject[]);
+    if (Object.keys(metadataValues).length > 0) {
+      paymentMethodData.metadata = metadataValues;
+    }
+
     const body: IDataObject = {
       payment_method: paymentMethodData,
     };
 
     const response = await spreedlyApiRequest.call(this, 'POST', '/payment_methods.json', body);
-    return prepareOutputData([simplifyResponse(response, 'transaction')]);
+    return prepareOutputData([
+      {
+        ...simplifyResponse(response, 'transaction'),
+        ...(cardValidation && { cardValidation }),
+      },
+    ]);
   },
 
   /**
@@ -67,25 +151,63 @@ export const paymentMethodOperations = {
     return prepareOutputData([simplifyResponse(response, 'payment_method')]);
   },
 
+  /**
+   * Update billing details, expiry and metadata of a payment method
+   */
+  async update(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
+    const paymentMethodToken = this.getNodeParameter('paymentMethodToken', i) as string;
+    const updateFields = this.getNodeParameter('updateFields', i, {}) as IDataObject;
+    const metadata = this.getNodeParameter('metadata', i, {}) as IDataObject;
+    const updateOptions = this.getNodeParameter('updateOptions', i, {}) as IDataObject;
+
+    const paymentMethod: IDataObject = buildPaymentMethodUpdate(updateFields);
+    const metadataValues = metadataPairsToObject(metadata.metadataValues as IDataObject[]);
+    if (Object.keys(metadataValues).length > 0) {
+      paymentMethod.metadata = metadataValues;
+    }
+    if (Object.keys(paymentMethod).length === 0) {
+      throw new NodeOperationError(this.getNode(), 'No fields to update', {
+        itemIndex: i,
+        description: 'Add at least one update field or metadata entry',
+      });
+    }
+
+    if (updateOptions.allowBlankName) {
+      paymentMethod.allow_blank_name = true;
+    }
+    if (updateOptions.allowExpiredDate) {
+      paymentMethod.allow_expired_date = true;
+    }
+    if (updateOptions.allowBlankDate) {
+      paymentMethod.allow_blank_date = true;
+    }
+
+    const response = await spreedlyApiRequest.call(
+      this,
+      'PUT',
+      `/payment_methods/${paymentMethodToken}.json`,
+      { payment_method: paymentMethod },
+    );
+    return prepareOutputData([simplifyResponse(response, 'payment_method')]);
+  },
+
   /**
    * List all payment methods
    */
   async list(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+    const listOptions = this.getNodeParameter('listOptions', i, {}) as IDataObject;
+    const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-    if (returnAll) {
-      const paymentMethods = await spreedlyApiRequestAllItems.call(
-        this,
-        'GET',
-        '/payment_methods.json',
-        'payment_methods',
-      );
-      return prepareOutputData(paymentMethods);
-    }
-
-    const limit = this.getNodeParameter('limit', i) as number;
-    const response = await spreedlyApiRequest.call(this, 'GET', '/payment_methods.json');
-    const paymentMethods = (response.payment_methods || []).slice(0, limit);
+    const paymentMethods = await spreedlyApiRequestAllItems.call(
+      this,
+      'GET',
+      '/payment_methods.json',
+      'payment_methods',
+      {},
+      {},
+      toPaginationOptions(listOptions, limit),
+    );
     return prepareOutputData(paymentMethods);
   },
 
@@ -185,7 +307,7 @@ export const paymentMethodFields = [
         operation: ['tokenize'],
       },
     },
-    options: PAYMENT_METHOD_TYPES.slice(0, 2), // Credit card and bank account only
+    options: PAYMENT_METHOD_TYPES,
     default: 'credit_card',
     description: 'Type of payment method to tokenize',
   },
@@ -264,6 +386,7 @@ export const paymentMethodFields = [
       show: {
         resource: ['paymentMethod'],
         operation: ['tokenize'],
+        paymentMethodType: ['credit_card', 'bank_account'],
       },
     },
     default: '',
@@ -278,11 +401,28 @@ export const paymentMethodFields = [
       show: {
         resource: ['paymentMethod'],
         operation: ['tokenize'],
+        paymentMethodType: ['credit_card', 'bank_account'],
       },
     },
     default: '',
     description: 'Cardholder or account holder last name',
   },
+  {
+    displayName: 'Card Validation',
+    name: 'cardValidation',
+    type: 'options' as const,
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize'],
+        paymentMethodType: ['credit_card'],
+      },
+    },
+    options: CARD_VALIDATION_MODES,
+    default: 'fail',
+    description:
+      'Check the Luhn digit, expiry and brand-specific CVV length before the card is sent to Spreedly',
+  },
   // Bank Account Fields
   {
     displayName: 'Routing Number',
@@ -353,26 +493,152 @@ export const paymentMethodFields = [
     default: 'personal',
     description: 'Type of account holder',
   },
+  // Wallet Fields
+  {
+    displayName: 'Payment Data',
+    name: 'paymentData',
+    type: 'json' as const,
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize'],
+        paymentMethodType: ['apple_pay', 'google_pay'],
+      },
+    },
+    default: '{}',
+    description:
+      'The encrypted payment token JSON from the wallet (Apple Pay paymentData or the Google Pay token)',
+  },
+  {
+    displayName: 'Certificate Name or ID',
+    name: 'certificateToken',
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getCertificates',
+    },
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize'],
+        paymentMethodType: ['apple_pay'],
+      },
+    },
+    default: '',
+    description:
+      `${LOAD_OPTIONS_DESCRIPTION}. Leave empty to use the environment's default Apple Pay certificate.`,
+  },
+  {
+    displayName: 'Additional Fields',
+    name: 'walletAdditionalFields',
+    type: 'collection' as const,
+    placeholder: 'Add Field',
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize'],
+        paymentMethodType: ['apple_pay', 'google_pay'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Email',
+        name: 'email',
+        type: 'string' as const,
+        default: '',
+        description: 'Payer email address',
+      },
+      {
+        displayName: 'Test Card Number',
+        name: 'testCardNumber',
+        type: 'string' as const,
+        default: '',
+        description: 'Card number that test gateways use in place of the decrypted wallet card',
+      },
+    ],
+  },
+  // Third-Party Token Fields
+  {
+    displayName: 'Reference',
+    name: 'thirdPartyReference',
+    type: 'string' as const,
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize'],
+        paymentMethodType: ['third_party_token'],
+      },
+    },
+    default: '',
+    description: 'The token issued by the gateway, for example a Stripe customer ID',
+  },
+  {
+    displayName: 'Gateway Type',
+    name: 'thirdPartyGatewayType',
+    type: 'options' as const,
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize'],
+        paymentMethodType: ['third_party_token'],
+      },
+    },
+    options: GATEWAY_TYPES,
+    default: 'stripe',
+    description: 'The gateway type that issued the token',
+  },
+  {
+    displayName: 'Additional Fields',
+    name: 'thirdPartyAdditionalFields',
+    type: 'collection' as const,
+    placeholder: 'Add Field',
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize'],
+        paymentMethodType: ['third_party_token'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Email',
+        name: 'email',
+        type: 'string' as const,
+        default: '',
+        description: 'Customer email address',
+      },
+    ],
+  },
   // Payment Method Token
   {
-    displayName: 'Payment Method Token',
+    displayName: 'Payment Method Name or ID',
     name: 'paymentMethodToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getPaymentMethods',
+    },
     required: true,
     displayOptions: {
       show: {
         resource: ['paymentMethod'],
-        operation: ['get', 'retain', 'redact', 'recache', 'storeAtGateway'],
+        operation: ['get', 'update', 'retain', 'redact', 'recache', 'storeAtGateway'],
       },
     },
     default: '',
-    description: 'The unique token identifying the payment method',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Gateway Token for Store
   {
-    displayName: 'Gateway Token',
+    displayName: 'Gateway Name or ID',
     name: 'gatewayToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getGateways',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -381,7 +647,7 @@ export const paymentMethodFields = [
       },
     },
     default: '',
-    description: 'The gateway to store the payment method at',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Return All for List
   {
@@ -416,6 +682,51 @@ export const paymentMethodFields = [
     default: 20,
     description: 'Max number of results to return',
   },
+  // Options for List
+  {
+    displayName: 'Options',
+    name: 'listOptions',
+    type: 'collection' as const,
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['list'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Max Pages',
+        name: 'maxPages',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 100,
+        description: 'Safety cap on the number of pages fetched',
+      },
+      {
+        displayName: 'Order',
+        name: 'order',
+        type: 'options' as const,
+        options: SORT_ORDERS,
+        default: 'asc',
+        description: 'Sort order by creation date',
+      },
+      {
+        displayName: 'Page Size',
+        name: 'pageSize',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+          maxValue: 100,
+        },
+        default: 20,
+        description: 'Number of records requested per API call',
+      },
+    ],
+  },
   // Additional Card Fields
   {
     displayName: 'Additional Fields',
@@ -489,6 +800,187 @@ export const paymentMethodFields = [
       },
     ],
   },
+  // Update Fields
+  {
+    displayName: 'Update Fields',
+    name: 'updateFields',
+    type: 'collection' as const,
+    placeholder: 'Add Field',
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['update'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Address Line 1',
+        name: 'address1',
+        type: 'string' as const,
+        default: '',
+        description: 'Billing address line 1',
+      },
+      {
+        displayName: 'Address Line 2',
+        name: 'address2',
+        type: 'string' as const,
+        default: '',
+        description: 'Billing address line 2',
+      },
+      {
+        displayName: 'City',
+        name: 'city',
+        type: 'string' as const,
+        default: '',
+        description: 'Billing city',
+      },
+      {
+        displayName: 'Country',
+        name: 'country',
+        type: 'string' as const,
+        default: '',
+        description: 'Billing country (ISO code)',
+      },
+      {
+        displayName: 'Email',
+        name: 'email',
+        type: 'string' as const,
+        default: '',
+        description: 'Cardholder email address',
+      },
+      {
+        displayName: 'Expiration Month',
+        name: 'expirationMonth',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+          maxValue: 12,
+        },
+        default: 1,
+        description: 'Card expiration month (1-12)',
+      },
+      {
+        displayName: 'Expiration Year',
+        name: 'expirationYear',
+        type: 'number' as const,
+        default: 2025,
+        description: 'Card expiration year (4-digit)',
+      },
+      {
+        displayName: 'First Name',
+        name: 'firstName',
+        type: 'string' as const,
+        default: '',
+        description: 'Cardholder first name',
+      },
+      {
+        displayName: 'Last Name',
+        name: 'lastName',
+        type: 'string' as const,
+        default: '',
+        description: 'Cardholder last name',
+      },
+      {
+        displayName: 'Phone Number',
+        name: 'phoneNumber',
+        type: 'string' as const,
+        default: '',
+        description: 'Cardholder phone number',
+      },
+      {
+        displayName: 'State',
+        name: 'state',
+        type: 'string' as const,
+        default: '',
+        description: 'Billing state/province',
+      },
+      {
+        displayName: 'ZIP/Postal Code',
+        name: 'zip',
+        type: 'string' as const,
+        default: '',
+        description: 'Billing ZIP/postal code',
+      },
+    ],
+  },
+  // Metadata for Tokenize and Update
+  {
+    displayName: 'Metadata',
+    name: 'metadata',
+    type: 'fixedCollection' as const,
+    placeholder: 'Add Metadata',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['tokenize', 'update'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Metadata',
+        name: 'metadataValues',
+        values: [
+          {
+            displayName: 'Key',
+            name: 'key',
+            type: 'string' as const,
+            default: '',
+            description: 'Metadata key',
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string' as const,
+            default: '',
+            description: 'Metadata value',
+          },
+        ],
+      },
+    ],
+    description: 'Key/value pairs stored with the payment method',
+  },
+  // Options for Update
+  {
+    displayName: 'Options',
+    name: 'updateOptions',
+    type: 'collection' as const,
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        resource: ['paymentMethod'],
+        operation: ['update'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Allow Blank Date',
+        name: 'allowBlankDate',
+        type: 'boolean' as const,
+        default: false,
+        description: 'Whether to accept a payment method without an expiration date',
+      },
+      {
+        displayName: 'Allow Blank Name',
+        name: 'allowBlankName',
+        type: 'boolean' as const,
+        default: false,
+        description: 'Whether to accept a payment method without a first and last name',
+      },
+      {
+        displayName: 'Allow Expired Date',
+        name: 'allowExpiredDate',
+        type: 'boolean' as const,
+        default: false,
+        description: 'Whether to accept an expiration date in the past',
+      },
+    ],
+  },
   // Additional Options for Redact
   {
     displayName: 'Additional Options',
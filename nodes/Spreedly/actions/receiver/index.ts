@@ -6,8 +6,9 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { spreedlyApiRequest, spreedlyApiRequestAllItems } from '../../transport';
+import { spreedlyApiRequest, spreedlyApiRequestAllItems, toPaginationOptions } from '../../transport';
 import { simplifyResponse, prepareOutputData } from '../../utils';
+import { SORT_ORDERS, LOAD_OPTIONS_DESCRIPTION } from '../../constants';
 
 /**
  * Receiver resource operations (for delivering card data to non-gateway APIs)
@@ -52,20 +53,18 @@ export const receiverOperations = {
    */
   async list(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+    const listOptions = this.getNodeParameter('listOptions', i, {}) as IDataObject;
+    const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-    if (returnAll) {
-      const receivers = await spreedlyApiRequestAllItems.call(
-        this,
-        'GET',
-        '/receivers.json',
-        'receivers',
-      );
-      return prepareOutputData(receivers);
-    }
-
-    const limit = this.getNodeParameter('limit', i) as number;
-    const response = await spreedlyApiRequest.call(this, 'GET', '/receivers.json');
-    const receivers = (response.receivers || []).slice(0, limit);
+    const receivers = await spreedlyApiRequestAllItems.call(
+      this,
+      'GET',
+      '/receivers.json',
+      'receivers',
+      {},
+      {},
+      toPaginationOptions(listOptions, limit),
+    );
     return prepareOutputData(receivers);
   },
 
@@ -178,9 +177,12 @@ export const receiverFields = [
   },
   // Receiver Token
   {
-    displayName: 'Receiver Token',
+    displayName: 'Receiver Name or ID',
     name: 'receiverToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getReceivers',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -189,13 +191,16 @@ export const receiverFields = [
       },
     },
     default: '',
-    description: 'The unique token identifying the receiver',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Payment Method Token for Deliver
   {
-    displayName: 'Payment Method Token',
+    displayName: 'Payment Method Name or ID',
     name: 'paymentMethodToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getPaymentMethods',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -204,7 +209,7 @@ export const receiverFields = [
       },
     },
     default: '',
-    description: 'The payment method to deliver',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Delivery URL
   {
@@ -328,6 +333,51 @@ export const receiverFields = [
     default: 20,
     description: 'Max number of results to return',
   },
+  // Options for List
+  {
+    displayName: 'Options',
+    name: 'listOptions',
+    type: 'collection' as const,
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        resource: ['receiver'],
+        operation: ['list'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Max Pages',
+        name: 'maxPages',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 100,
+        description: 'Safety cap on the number of pages fetched',
+      },
+      {
+        displayName: 'Order',
+        name: 'order',
+        type: 'options' as const,
+        options: SORT_ORDERS,
+        default: 'asc',
+        description: 'Sort order by creation date',
+      },
+      {
+        displayName: 'Page Size',
+        name: 'pageSize',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+          maxValue: 100,
+        },
+        default: 20,
+        description: 'Number of records requested per API call',
+      },
+    ],
+  },
   // Additional Fields for Create
   {
     displayName: 'Additional Fields',
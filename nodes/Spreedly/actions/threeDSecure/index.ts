@@ -8,7 +8,7 @@
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
 import { spreedlyApiRequest, formatAmountInCents } from '../../transport';
 import { simplifyResponse, prepareOutputData } from '../../utils';
-import { CURRENCY_CODES, THREE_D_SECURE_VERSIONS } from '../../constants';
+import { CURRENCY_CODES, THREE_D_SECURE_VERSIONS, LOAD_OPTIONS_DESCRIPTION } from '../../constants';
 
 /**
  * 3D Secure resource operations
@@ -172,9 +172,12 @@ export const threeDSecureOperations = {
 export const threeDSecureFields = [
   // Gateway Token
   {
-    displayName: 'Gateway Token',
+    displayName: 'Gateway Name or ID',
     name: 'gatewayToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getGateways',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -183,13 +186,16 @@ export const threeDSecureFields = [
       },
     },
     default: '',
-    description: 'The 3DS-capable gateway to use',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Payment Method Token
   {
-    displayName: 'Payment Method Token',
+    displayName: 'Payment Method Name or ID',
     name: 'paymentMethodToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getPaymentMethods',
+    },
     required: true,
     displayOptions: {
       show: {
@@ -198,7 +204,7 @@ export const threeDSecureFields = [
       },
     },
     default: '',
-    description: 'The tokenized card to authenticate',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Amount
   {
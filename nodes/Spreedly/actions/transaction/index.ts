@@ -6,9 +6,436 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { spreedlyApiRequest, spreedlyApiRequestAllItems, formatAmountInCents } from '../../transport';
-import { simplifyResponse, prepareOutputData } from '../../utils';
-import { CURRENCY_CODES } from '../../constants';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+  spreedlyApiRequest,
+  spreedlyApiRequestAllItems,
+  toPaginationOptions,
+  formatAmountInCents,
+  getGatewayType,
+  getGatewayCatalog,
+} from '../../transport';
+import {
+  simplifyResponse,
+  prepareOutputData,
+  toDisplayName,
+  buildTransactionListQuery,
+  matchesTransactionFilters,
+  normalizeTransactionOutcome,
+  isFailedOutcome,
+  metadataPairsToObject,
+  parseTranscript,
+} from '../../utils';
+import {
+  SpreedlyApiError,
+  SpreedlyTransactionError,
+  categorizeFailedTransaction,
+} from '../../errors';
+import { selectGateway } from '../../routing';
+import {
+  CARD_TYPES,
+  CURRENCY_CODES,
+  GATEWAY_TYPES,
+  SORT_ORDERS,
+  TRANSACTION_STATES,
+  TRANSACTION_TYPES,
+  MAX_PAGE_SIZE,
+  DEFAULT_MAX_ITEMS,
+  IDEMPOTENT_REUSABLE_STATES,
+  IDEMPOTENCY_LOOKBACK,
+  TRANSACTION_OUTCOME_OPERATIONS,
+  STORED_CREDENTIAL_INITIATORS,
+  STORED_CREDENTIAL_REASON_TYPES,
+  STORED_CREDENTIAL_SEQUENCES,
+  LOAD_OPTIONS_DESCRIPTION,
+} from '../../constants';
+
+/**
+ * Reads the metadata pairs entered for a transaction
+ */
+function getTransactionMetadata(this: IExecuteFunctions, i: number): IDataObject | undefined {
+  const metadata = this.getNodeParameter('metadata', i, {}) as IDataObject;
+  const metadataValues = metadataPairsToObject(metadata.metadataValues as IDataObject[]);
+  return Object.keys(metadataValues).length > 0 ? metadataValues : undefined;
+}
+
+/**
+ * Builds gateway_specific_fields keyed by the gateway type of the selected gateway.
+ * JSON fields may be given for the resolved gateway type or keyed by gateway type, in which
+ * case only the entry for the resolved type is sent.
+ */
+async function getGatewaySpecificFields(
+  this: IExecuteFunctions,
+  i: number,
+  gatewayToken: string,
+): Promise<IDataObject | undefined> {
+  const pairs = this.getNodeParameter('gatewaySpecificFields', i, {}) as IDataObject;
+  const json = this.getNodeParameter('gatewaySpecificFieldsJson', i, '') as string | IDataObject;
+  const fields = metadataPairsToObject(pairs.fieldValues as IDataObject[]);
+
+  let jsonFields: IDataObject = {};
+  if (typeof json === 'string' && json.trim()) {
+    try {
+      jsonFields = JSON.parse(json) as IDataObject;
+    } catch {
+      throw new NodeOperationError(
+        this.getNode(),
+        'Gateway Specific Fields (JSON) must be valid JSON',
+        { itemIndex: i },
+      );
+    }
+  } else if (json && typeof json === 'object') {
+    jsonFields = json;
+  }
+
+  if (Object.keys(fields).length === 0 && Object.keys(jsonFields).length === 0) {
+    return undefined;
+  }
+
+  const gatewayType = await getGatewayType.call(this, gatewayToken);
+  const keyedByType = await isKeyedByGatewayType.call(this, jsonFields, gatewayType);
+  const typeFields = keyedByType ? ((jsonFields[gatewayType] as IDataObject) ?? {}) : jsonFields;
+  const gatewayFields = { ...typeFields, ...fields };
+  return Object.keys(gatewayFields).length > 0 ? { [gatewayType]: gatewayFields } : undefined;
+}
+
+/**
+ * Whether every top-level key of the JSON fields is a known gateway type, so the same JSON
+ * can serve a failover list that mixes gateway types
+ */
+async function isKeyedByGatewayType(
+  this: IExecuteFunctions,
+  jsonFields: IDataObject,
+  gatewayType: string,
+): Promise<boolean> {
+  const keys = Object.keys(jsonFields);
+  if (keys.length === 0) {
+    return false;
+  }
+  const knownTypes = new Set([gatewayType, ...GATEWAY_TYPES.map((type) => type.value)]);
+  if (keys.every((key) => knownTypes.has(key))) {
+    return true;
+  }
+
+  // Only JSON made of nested objects can be keyed by a type missing from the bundled list
+  const nested = Object.values(jsonFields).every(
+    (value) => !!value && typeof value === 'object' && !Array.isArray(value),
+  );
+  if (!nested) {
+    return false;
+  }
+  const catalog = await getGatewayCatalog.call(this);
+  catalog.forEach((entry) => knownTypes.add(entry.gateway_type));
+  return keys.every((key) => knownTypes.has(key));
+}
+
+/**
+ * Reads the network transaction ID recorded on a transaction
+ */
+export function getNetworkTransactionId(transaction: IDataObject): string | undefined {
+  if (transaction.network_transaction_id) {
+    return transaction.network_transaction_id as string;
+  }
+  const responseFields = (transaction.gateway_specific_response_fields as IDataObject) || {};
+  for (const fields of Object.values(responseFields)) {
+    const networkTransactionId = (fields as IDataObject)?.network_transaction_id;
+    if (networkTransactionId) {
+      return networkTransactionId as string;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the stored credential fields, carrying the network transaction ID
+ * forward from a referenced transaction for subsequent charges
+ */
+async function getStoredCredential(
+  this: IExecuteFunctions,
+  i: number,
+): Promise<{ fields: IDataObject; info: IDataObject } | undefined> {
+  const options = this.getNodeParameter('storedCredential', i, {}) as IDataObject;
+  if (Object.keys(options).length === 0) {
+    return undefined;
+  }
+  if (!options.initiator || !options.reasonType) {
+    throw new NodeOperationError(
+      this.getNode(),
+      'Stored credential transactions require an Initiator and a Reason Type',
+      { itemIndex: i },
+    );
+  }
+
+  const sequence = (options.sequence as string) || 'subsequent';
+  let networkTransactionId = (options.networkTransactionId as string) || undefined;
+  let networkTransactionIdSource = networkTransactionId ? 'manual' : null;
+  if (!networkTransactionId && sequence === 'subsequent' && options.previousTransactionToken) {
+    const response = await spreedlyApiRequest.call(
+      this,
+      'GET',
+      `/transactions/${options.previousTransactionToken}.json`,
+    );
+    networkTransactionId = getNetworkTransactionId((response.transaction as IDataObject) || {});
+    networkTransactionIdSource = networkTransactionId ? 'referenced' : null;
+  }
+
+  return {
+    fields: {
+      stored_credential_initiator: options.initiator,
+      stored_credential_reason_type: options.reasonType,
+      stored_credential_initial_transaction: sequence === 'initial',
+      ...(networkTransactionId && {
+        stored_credential_network_transaction_id: networkTransactionId,
+      }),
+    },
+    info: {
+      initiator: options.initiator,
+      reasonType: options.reasonType,
+      sequence,
+      networkTransactionId: networkTransactionId ?? null,
+      networkTransactionIdSource,
+      ...(options.previousTransactionToken && {
+        previousTransactionToken: options.previousTransactionToken,
+      }),
+    },
+  };
+}
+
+/**
+ * Looks up a transaction already created under an idempotency key
+ */
+async function findIdempotentTransaction(
+  this: IExecuteFunctions,
+  gatewayToken: string,
+  transactionType: string,
+  mode: string,
+  key: string,
+): Promise<IDataObject | undefined> {
+  const matchesKey = (transaction: IDataObject) =>
+    mode === 'orderId'
+      ? transaction.order_id === key
+      : ((transaction.metadata as IDataObject) || {}).idempotency_key === key;
+
+  const [existing] = await spreedlyApiRequestAllItems.call(
+    this,
+    'GET',
+    `/gateways/${gatewayToken}/transactions.json`,
+    'transactions',
+    {},
+    mode === 'orderId' ? { order_id: key } : {},
+    {
+      order: 'desc',
+      pageSize: MAX_PAGE_SIZE,
+      limit: 1,
+      maxPages: Math.ceil(IDEMPOTENCY_LOOKBACK / MAX_PAGE_SIZE),
+      filter: (transaction) =>
+        transaction.transaction_type === transactionType &&
+        IDEMPOTENT_REUSABLE_STATES.includes(transaction.state as string) &&
+        matchesKey(transaction),
+    },
+  );
+  return existing;
+}
+
+/**
+ * Creates a purchase or authorization, optionally guarded by an idempotency key
+ */
+async function createGatewayTransaction(
+  this: IExecuteFunctions,
+  i: number,
+  action: 'purchase' | 'authorize',
+): Promise<INodeExecutionData[]> {
+  const paymentMethodToken = this.getNodeParameter('paymentMethodToken', i) as string;
+  const amount = this.getNodeParameter('amount', i) as number;
+  const currency = this.getNodeParameter('currency', i) as string;
+  const { gatewayToken, routing } = await selectGateway.call(
+    this,
+    i,
+    paymentMethodToken,
+    currency,
+    amount,
+  );
+  const additionalFields = this.getNodeParameter('transactionAdditionalFields', i, {}) as IDataObject;
+  const idempotencyMode = this.getNodeParameter('idempotencyMode', i, 'off') as string;
+  const metadata = getTransactionMetadata.call(this, i);
+  const storedCredential = await getStoredCredential.call(this, i);
+  const gatewaySpecificFields = await getGatewaySpecificFields.call(this, i, gatewayToken);
+
+  const transaction: IDataObject = {
+    payment_method_token: paymentMethodToken,
+    amount: formatAmountInCents(amount),
+    currency_code: currency,
+    ...additionalFields,
+    ...(metadata && { metadata }),
+    ...storedCredential?.fields,
+    ...(gatewaySpecificFields && { gateway_specific_fields: gatewaySpecificFields }),
+  };
+
+  if (idempotencyMode === 'off') {
+    const response = await spreedlyApiRequest.call(
+      this,
+      'POST',
+      `/gateways/${gatewayToken}/${action}.json`,
+      { transaction },
+    );
+    return prepareOutputData([
+      {
+        ...simplifyResponse(response, 'transaction'),
+        ...(storedCredential && { storedCredential: storedCredential.info }),
+        ...(routing && { routing }),
+      },
+    ]);
+  }
+
+  const key =
+    idempotencyMode === 'orderId'
+      ? (additionalFields.order_id as string)
+      : (this.getNodeParameter('idempotencyKey', i) as string);
+  if (!key) {
+    throw new NodeOperationError(
+      this.getNode(),
+      idempotencyMode === 'orderId'
+        ? 'Idempotency by Order ID requires the Order ID additional field'
+        : 'Idempotency Key must not be empty',
+      { itemIndex: i },
+    );
+  }
+  if (idempotencyMode === 'customKey') {
+    transaction.metadata = {
+      ...((transaction.metadata as IDataObject) || {}),
+      idempotency_key: key,
+    };
+  }
+
+  const transactionType = action === 'purchase' ? 'Purchase' : 'Authorization';
+  const existing = await findIdempotentTransaction.call(
+    this,
+    gatewayToken,
+    transactionType,
+    idempotencyMode,
+    key,
+  );
+
+  if (existing) {
+    const existingPaymentMethod = (existing.payment_method as IDataObject) || {};
+    if (
+      existing.amount !== transaction.amount ||
+      existing.currency_code !== currency ||
+      existingPaymentMethod.token !== paymentMethodToken
+    ) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Idempotency key "${key}" was already used by transaction ${existing.token} with a different amount, currency or payment method`,
+        { itemIndex: i },
+      );
+    }
+
+    return prepareOutputData([
+      {
+        ...existing,
+        ...(routing && { routing }),
+        idempotency: {
+          mode: idempotencyMode,
+          key,
+          decision: 'reused',
+          existingTransactionToken: existing.token,
+        },
+      },
+    ]);
+  }
+
+  const response = await spreedlyApiRequest.call(
+    this,
+    'POST',
+    `/gateways/${gatewayToken}/${action}.json`,
+    { transaction },
+  );
+  return prepareOutputData([
+    {
+      ...simplifyResponse(response, 'transaction'),
+      ...(storedCredential && { storedCredential: storedCredential.info }),
+      ...(routing && { routing }),
+      idempotency: {
+        mode: idempotencyMode,
+        key,
+        decision: 'created',
+      },
+    },
+  ]);
+}
+
+/**
+ * Records one gateway attempt of a failover purchase
+ */
+function toFailoverAttempt(
+  gatewayToken: string,
+  transaction?: IDataObject,
+  error?: any,
+): IDataObject {
+  return {
+    gatewayToken,
+    transactionToken: transaction?.token ?? null,
+    state: transaction?.state ?? null,
+    succeeded: transaction?.succeeded === true,
+    message: error?.message ?? transaction?.message ?? null,
+    errorCategory: error?.category ?? (error ? 'unknown' : null),
+    failedOver: false,
+  };
+}
+
+/**
+ * Attaches the failover attempt chain to the error that ended it
+ */
+function withFailoverAttempts(error: any, gatewayToken: string, attempts: IDataObject[]): any {
+  if (error instanceof SpreedlyApiError) {
+    if (error.transaction) {
+      error.transaction = { ...error.transaction, failover: { gatewayToken, attempts } };
+    }
+    const chain = attempts
+      .map((attempt) => `${attempt.gatewayToken} (${attempt.state ?? attempt.errorCategory})`)
+      .join(' → ');
+    error.description = [error.description, `Gateways tried: ${chain}`]
+      .filter(Boolean)
+      .join('\n');
+  }
+  return error;
+}
+
+/**
+ * Runs a transaction-creating operation and attaches its normalized outcome.
+ * Unless failed transactions pass through, a 422 carrying a transaction is
+ * returned as a result, and Raise Error turns failed outcomes into errors.
+ */
+export async function withTransactionOutcome(
+  this: IExecuteFunctions,
+  i: number,
+  run: () => Promise<INodeExecutionData[]>,
+): Promise<INodeExecutionData[]> {
+  const handling = this.getNodeParameter('failedTransactionHandling', i, 'passThrough') as string;
+
+  let items: INodeExecutionData[];
+  try {
+    items = await run();
+  } catch (error) {
+    if (handling === 'passThrough' || !(error instanceof SpreedlyApiError) || !error.transaction) {
+      throw error;
+    }
+    items = prepareOutputData([error.transaction]);
+  }
+
+  const results = items.map((item) => ({
+    ...item,
+    json: { ...item.json, outcome: normalizeTransactionOutcome(item.json) },
+  }));
+
+  if (handling === 'throwError') {
+    const failed = results.find((item) => isFailedOutcome(item.json.outcome));
+    if (failed) {
+      throw new SpreedlyTransactionError(this.getNode(), failed.json, i);
+    }
+  }
+  return results;
+}
 
 /**
  * Transaction resource operations
@@ -18,56 +445,94 @@ export const transactionOperations = {
    * Create a purchase transaction (authorize + capture)
    */
   async purchase(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
-    const gatewayToken = this.getNodeParameter('gatewayToken', i) as string;
+    return createGatewayTransaction.call(this, i, 'purchase');
+  },
+
+  /**
+   * Create a purchase on the first gateway of an ordered list that processes it.
+   * Only gateway processing failures move on to the next gateway; declines,
+   * unknown results and API errors end the chain.
+   */
+  async purchaseWithFailover(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
+    const failoverGateways = this.getNodeParameter('failoverGateways', i, {}) as IDataObject;
+    const gatewayTokens = ((failoverGateways.gatewayValues as IDataObject[]) ?? [])
+      .map((gateway) => ((gateway.gatewayToken as string) ?? '').trim())
+      .filter(Boolean);
+    if (gatewayTokens.length === 0) {
+      throw new NodeOperationError(this.getNode(), 'Add at least one gateway to try', {
+        itemIndex: i,
+      });
+    }
+
     const paymentMethodToken = this.getNodeParameter('paymentMethodToken', i) as string;
     const amount = this.getNodeParameter('amount', i) as number;
     const currency = this.getNodeParameter('currency', i) as string;
-    const additionalFields = this.getNodeParameter('transactionAdditionalFields', i, {}) as IDataObject;
+    const additionalFields = this.getNodeParameter(
+      'transactionAdditionalFields',
+      i,
+      {},
+    ) as IDataObject;
+    const metadata = getTransactionMetadata.call(this, i);
+    const storedCredential = await getStoredCredential.call(this, i);
 
-    const body: IDataObject = {
-      transaction: {
+    const attempts: IDataObject[] = [];
+    for (const [index, gatewayToken] of gatewayTokens.entries()) {
+      const isLastGateway = index === gatewayTokens.length - 1;
+      const gatewaySpecificFields = await getGatewaySpecificFields.call(this, i, gatewayToken);
+      const transaction: IDataObject = {
         payment_method_token: paymentMethodToken,
         amount: formatAmountInCents(amount),
         currency_code: currency,
         ...additionalFields,
-      },
-    };
+        ...(metadata && { metadata }),
+        ...storedCredential?.fields,
+        ...(gatewaySpecificFields && { gateway_specific_fields: gatewaySpecificFields }),
+      };
 
-    const response = await spreedlyApiRequest.call(
-      this,
-      'POST',
-      `/gateways/${gatewayToken}/purchase.json`,
-      body,
-    );
-    return prepareOutputData([simplifyResponse(response, 'transaction')]);
+      let result: IDataObject;
+      try {
+        const response = await spreedlyApiRequest.call(
+          this,
+          'POST',
+          `/gateways/${gatewayToken}/purchase.json`,
+          { transaction },
+        );
+        result = simplifyResponse(response, 'transaction');
+      } catch (error: any) {
+        const attempt = toFailoverAttempt(gatewayToken, error.transaction, error);
+        attempts.push(attempt);
+        if (isLastGateway || error.category !== 'gatewayError') {
+          throw withFailoverAttempts(error, gatewayToken, attempts);
+        }
+        attempt.failedOver = true;
+        continue;
+      }
+
+      const attempt = toFailoverAttempt(gatewayToken, result);
+      attempts.push(attempt);
+      if (isLastGateway || categorizeFailedTransaction(result) !== 'gatewayError') {
+        return prepareOutputData([
+          {
+            ...result,
+            ...(storedCredential && { storedCredential: storedCredential.info }),
+            failover: { gatewayToken, attempts },
+          },
+        ]);
+      }
+      attempt.failedOver = true;
+    }
+
+    // Every gateway was tried; the loop returns or throws on the last one
+    throw new NodeOperationError(this.getNode(), 'No gateway processed the purchase', {
+      itemIndex: i,
+    });
   },
 
   /**
    * Create an authorization (hold funds without capturing)
    */
   async authorize(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
-    const gatewayToken = this.getNodeParameter('gatewayToken', i) as string;
-    const paymentMethodToken = this.getNodeParameter('paymentMethodToken', i) as string;
-    const amount = this.getNodeParameter('amount', i) as number;
-    const currency = this.getNodeParameter('currency', i) as string;
-    const additionalFields = this.getNodeParameter('transactionAdditionalFields', i, {}) as IDataObject;
-
-    const body: IDataObject = {
-      transaction: {
-        payment_method_token: paymentMethodToken,
-        amount: formatAmountInCents(amount),
-        currency_code: currency,
-        ...additionalFields,
-      },
-    };
-
-    const response = await spreedlyApiRequest.call(
-      this,
-      'POST',
-      `/gateways/${gatewayToken}/authorize.json`,
-      body,
-    );
-    return prepareOutputData([simplifyResponse(response, 'transaction')]);
+    return createGatewayTransaction.call(this, i, 'authorize');
   },
 
   /**
@@ -140,12 +605,16 @@ export const transactionOperations = {
     const paymentMethodToken = this.getNodeParameter('paymentMethodToken', i) as string;
     const amount = this.getNodeParameter('amount', i) as number;
     const currency = this.getNodeParameter('currency', i) as string;
+    const metadata = getTransactionMetadata.call(this, i);
+    const gatewaySpecificFields = await getGatewaySpecificFields.call(this, i, gatewayToken);
 
     const body: IDataObject = {
       transaction: {
         payment_method_token: paymentMethodToken,
         amount: formatAmountInCents(amount),
         currency_code: currency,
+        ...(metadata && { metadata }),
+        ...(gatewaySpecificFields && { gateway_specific_fields: gatewaySpecificFields }),
       },
     };
 
@@ -162,16 +631,25 @@ export const transactionOperations = {
    * Verify a payment method (zero-value authorization)
    */
   async verify(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
-    const gatewayToken = this.getNodeParameter('gatewayToken', i) as string;
     const paymentMethodToken = this.getNodeParameter('paymentMethodToken', i) as string;
     const currency = this.getNodeParameter('currency', i) as string;
+    const { gatewayToken, routing } = await selectGateway.call(
+      this,
+      i,
+      paymentMethodToken,
+      currency,
+    );
     const retainOnSuccess = this.getNodeParameter('retainOnSuccess', i, false) as boolean;
+    const metadata = getTransactionMetadata.call(this, i);
+    const gatewaySpecificFields = await getGatewaySpecificFields.call(this, i, gatewayToken);
 
     const body: IDataObject = {
       transaction: {
         payment_method_token: paymentMethodToken,
         currency_code: currency,
         retain_on_success: retainOnSuccess,
+        ...(metadata && { metadata }),
+        ...(gatewaySpecificFields && { gateway_specific_fields: gatewaySpecificFields }),
       },
     };
 
@@ -181,7 +659,9 @@ export const transactionOperations = {
       `/gateways/${gatewayToken}/verify.json`,
       body,
     );
-    return prepareOutputData([simplifyResponse(response, 'transaction')]);
+    return prepareOutputData([
+      { ...simplifyResponse(response, 'transaction'), ...(routing && { routing }) },
+    ]);
   },
 
   /**
@@ -199,29 +679,78 @@ export const transactionOperations = {
   },
 
   /**
-   * List transactions
+   * List transactions, optionally scoped to a gateway or payment method
    */
   async list(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+    const listOptions = this.getNodeParameter('listOptions', i, {}) as IDataObject;
+    const filters = this.getNodeParameter('transactionFilters', i, {}) as IDataObject;
+    const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-    if (returnAll) {
-      const transactions = await spreedlyApiRequestAllItems.call(
-        this,
-        'GET',
-        '/transactions.json',
-        'transactions',
+    if (filters.gatewayToken && filters.paymentMethodToken) {
+      throw new NodeOperationError(
+        this.getNode(),
+        'Filter by either Gateway Token or Payment Method Token, not both',
+        { itemIndex: i },
       );
-      return prepareOutputData(transactions);
     }
 
-    const limit = this.getNodeParameter('limit', i) as number;
-    const response = await spreedlyApiRequest.call(this, 'GET', '/transactions.json');
-    const transactions = (response.transactions || []).slice(0, limit);
+    let endpoint = '/transactions.json';
+    if (filters.gatewayToken) {
+      endpoint = `/gateways/${filters.gatewayToken}/transactions.json`;
+    } else if (filters.paymentMethodToken) {
+      endpoint = `/payment_methods/${filters.paymentMethodToken}/transactions.json`;
+    }
+
+    // Transactions are ordered by creation, so stop once the date range is passed
+    const createdAfter = filters.createdAfter ? Date.parse(filters.createdAfter as string) : NaN;
+    const createdBefore = filters.createdBefore ? Date.parse(filters.createdBefore as string) : NaN;
+    const pagination = toPaginationOptions(listOptions, limit);
+    if (pagination.order === undefined && !isNaN(createdAfter)) {
+      // Newest first reaches a recent range without paging through older transactions
+      pagination.order = 'desc';
+    }
+    pagination.filter = (transaction) => matchesTransactionFilters(transaction, filters);
+    pagination.until = (transaction) => {
+      const createdAt = Date.parse(transaction.created_at as string);
+      return pagination.order === 'desc'
+        ? createdAt < createdAfter
+        : createdAt > createdBefore;
+    };
+
+    let cappedAt: string | undefined;
+    pagination.onCapReached = (cap) => {
+      cappedAt = cap === 'maxPages' ? 'Max Pages' : `${DEFAULT_MAX_ITEMS} transactions`;
+    };
+
+    const query = buildTransactionListQuery(filters);
+    const transactions = await spreedlyApiRequestAllItems.call(
+      this,
+      'GET',
+      endpoint,
+      'transactions',
+      {},
+      query,
+      pagination,
+    );
+
+    // A filtered scan cut short by a safety cap may be missing matches, so do not return it
+    if (cappedAt && Object.keys(query).length > 0) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Stopped at ${cappedAt} before every transaction matching the filters was found`,
+        {
+          itemIndex: i,
+          description:
+            'Narrow the date range, raise Options → Max Pages, or set Options → Order so the scan starts from the end of the range',
+        },
+      );
+    }
     return prepareOutputData(transactions);
   },
 
   /**
-   * Get transcript for a transaction (raw gateway request/response)
+   * Get transcript for a transaction, parsed into gateway request/response exchanges
    */
   async getTranscript(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
     const transactionToken = this.getNodeParameter('transactionToken', i) as string;
@@ -231,7 +760,8 @@ export const transactionOperations = {
       'GET',
       `/transactions/${transactionToken}/transcript`,
     );
-    return prepareOutputData([{ transcript: response }]);
+    const transcript = typeof response === 'string' ? response : JSON.stringify(response);
+    return prepareOutputData([{ transcript, exchanges: await parseTranscript(transcript) }]);
   },
 };
 
@@ -239,35 +769,221 @@ export const transactionOperations = {
  * Transaction operation descriptions for n8n UI
  */
 export const transactionFields = [
+  // Gateway Selection
+  {
+    displayName: 'Gateway Selection',
+    name: 'gatewaySelection',
+    type: 'options' as const,
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'authorize', 'verify'],
+      },
+    },
+    options: [
+      {
+        name: 'Fixed Gateway',
+        value: 'fixed',
+        description: 'Always use the selected gateway',
+      },
+      {
+        name: 'Routing Rules',
+        value: 'rules',
+        description: 'Use the gateway of the first matching rule, or the default gateway',
+      },
+    ],
+    default: 'fixed',
+  },
   // Gateway Token
   {
-    displayName: 'Gateway Token',
+    displayName: 'Gateway Name or ID',
     name: 'gatewayToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getGateways',
+    },
     required: true,
     displayOptions: {
       show: {
         resource: ['transaction'],
         operation: ['purchase', 'authorize', 'generalCredit', 'verify'],
       },
+      hide: {
+        gatewaySelection: ['rules'],
+      },
+    },
+    default: '',
+    description: LOAD_OPTIONS_DESCRIPTION,
+  },
+  // Routing Rules
+  {
+    displayName: 'Routing Rules',
+    name: 'routingRules',
+    type: 'fixedCollection' as const,
+    placeholder: 'Add Rule',
+    typeOptions: {
+      multipleValues: true,
+      sortable: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'authorize', 'verify'],
+        gatewaySelection: ['rules'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Rule',
+        name: 'ruleValues',
+        values: [
+          {
+            displayName: 'Name',
+            name: 'name',
+            type: 'string' as const,
+            default: '',
+            placeholder: 'EUR to Adyen',
+            description: 'Name reported in the routing output when the rule matches',
+          },
+          {
+            displayName: 'Gateway Name or ID',
+            name: 'gatewayToken',
+            type: 'options' as const,
+            typeOptions: {
+              loadOptionsMethod: 'getGateways',
+            },
+            default: '',
+            description: LOAD_OPTIONS_DESCRIPTION,
+          },
+          {
+            displayName: 'Currencies',
+            name: 'currencies',
+            type: 'multiOptions' as const,
+            options: CURRENCY_CODES,
+            default: [],
+            description: 'Match these currencies. Leave empty for any currency.',
+          },
+          {
+            displayName: 'Card Brands',
+            name: 'cardTypes',
+            type: 'multiOptions' as const,
+            options: CARD_TYPES,
+            default: [],
+            description: "Match the payment method's card brand. Leave empty for any brand.",
+          },
+          {
+            displayName: 'BIN Countries',
+            name: 'binCountries',
+            type: 'string' as const,
+            default: '',
+            placeholder: 'DE, FR, NL',
+            description:
+              'Comma-separated ISO country codes of the issuing bank. Leave empty for any country.',
+          },
+          {
+            displayName: 'Min Amount',
+            name: 'minAmount',
+            type: 'number' as const,
+            typeOptions: {
+              minValue: 0,
+              numberPrecision: 2,
+            },
+            default: 0,
+            description: 'Match amounts of at least this value. 0 means no minimum.',
+          },
+          {
+            displayName: 'Max Amount',
+            name: 'maxAmount',
+            type: 'number' as const,
+            typeOptions: {
+              minValue: 0,
+              numberPrecision: 2,
+            },
+            default: 0,
+            description: 'Match amounts of at most this value. 0 means no maximum.',
+          },
+        ],
+      },
+    ],
+    description:
+      'Rules are checked in order and the first match picks the gateway. Verify has no amount, so rules with an amount range never match it.',
+  },
+  // Default Gateway for Routing Rules
+  {
+    displayName: 'Default Gateway Name or ID',
+    name: 'defaultGatewayToken',
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getGateways',
+    },
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'authorize', 'verify'],
+        gatewaySelection: ['rules'],
+      },
     },
     default: '',
-    description: 'The gateway to process the transaction through',
+    description: `Gateway used when no rule matches. Without one, unmatched items fail. ${LOAD_OPTIONS_DESCRIPTION}.`,
+  },
+  // Gateways for Purchase with Failover
+  {
+    displayName: 'Gateways',
+    name: 'failoverGateways',
+    type: 'fixedCollection' as const,
+    placeholder: 'Add Gateway',
+    required: true,
+    typeOptions: {
+      multipleValues: true,
+      sortable: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchaseWithFailover'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Gateway',
+        name: 'gatewayValues',
+        values: [
+          {
+            displayName: 'Gateway Name or ID',
+            name: 'gatewayToken',
+            type: 'options' as const,
+            typeOptions: {
+              loadOptionsMethod: 'getGateways',
+            },
+            default: '',
+            description: LOAD_OPTIONS_DESCRIPTION,
+          },
+        ],
+      },
+    ],
+    description:
+      'Gateways to try in order. The next gateway is only tried when one fails to process the purchase, never after a decline.',
   },
   // Payment Method Token
   {
-    displayName: 'Payment Method Token',
+    displayName: 'Payment Method Name or ID',
     name: 'paymentMethodToken',
-    type: 'string' as const,
+    type: 'options' as const,
+    typeOptions: {
+      loadOptionsMethod: 'getPaymentMethods',
+    },
     required: true,
     displayOptions: {
       show: {
         resource: ['transaction'],
-        operation: ['purchase', 'authorize', 'generalCredit', 'verify'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize', 'generalCredit', 'verify'],
       },
     },
     default: '',
-    description: 'The tokenized payment method to charge',
+    description: LOAD_OPTIONS_DESCRIPTION,
   },
   // Amount
   {
@@ -278,7 +994,7 @@ export const transactionFields = [
     displayOptions: {
       show: {
         resource: ['transaction'],
-        operation: ['purchase', 'authorize', 'generalCredit'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize', 'generalCredit'],
       },
     },
     typeOptions: {
@@ -297,7 +1013,7 @@ export const transactionFields = [
     displayOptions: {
       show: {
         resource: ['transaction'],
-        operation: ['purchase', 'authorize', 'generalCredit', 'verify'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize', 'generalCredit', 'verify'],
       },
     },
     options: CURRENCY_CODES,
@@ -355,6 +1071,87 @@ export const transactionFields = [
     default: 0,
     description: 'Amount to refund (leave empty or 0 for full amount)',
   },
+  // Failed Transaction Handling
+  {
+    displayName: 'Failed Transaction Handling',
+    name: 'failedTransactionHandling',
+    type: 'options' as const,
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: TRANSACTION_OUTCOME_OPERATIONS,
+      },
+    },
+    options: [
+      {
+        name: 'Output Normally',
+        value: 'passThrough',
+        description: 'Output failed transactions like successful ones',
+      },
+      {
+        name: 'Route to Failed Output',
+        value: 'separateOutput',
+        description: 'Send failed and result-unknown transactions to a second output',
+      },
+      {
+        name: 'Raise Error',
+        value: 'throwError',
+        description: 'Fail the item with the gateway decline reason',
+      },
+    ],
+    default: 'passThrough',
+    description:
+      'What to do with transactions the gateway did not approve. Every result gets a normalized outcome with message, error code, AVS and CVV results.',
+  },
+  // Idempotency for Purchase/Authorize
+  {
+    displayName: 'Idempotency',
+    name: 'idempotencyMode',
+    type: 'options' as const,
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'authorize'],
+      },
+    },
+    options: [
+      {
+        name: 'Off',
+        value: 'off',
+        description: 'Always create a new transaction',
+      },
+      {
+        name: 'By Order ID',
+        value: 'orderId',
+        description: 'Reuse an existing transaction with the same Order ID',
+      },
+      {
+        name: 'By Custom Key',
+        value: 'customKey',
+        description: 'Reuse an existing transaction with the same key, stored in its metadata',
+      },
+    ],
+    default: 'off',
+    description:
+      'Whether to look up an existing successful or pending transaction before charging, so reruns do not charge twice',
+  },
+  {
+    displayName: 'Idempotency Key',
+    name: 'idempotencyKey',
+    type: 'string' as const,
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'authorize'],
+        idempotencyMode: ['customKey'],
+      },
+    },
+    default: '',
+    placeholder: 'e.g. {{ $json.invoiceId }}',
+    description: 'Unique key for this charge, usually an expression',
+  },
   // Retain on Success for Verify
   {
     displayName: 'Retain on Success',
@@ -402,6 +1199,280 @@ export const transactionFields = [
     default: 20,
     description: 'Max number of results to return',
   },
+  // Options for List
+  {
+    displayName: 'Options',
+    name: 'listOptions',
+    type: 'collection' as const,
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['list'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Max Pages',
+        name: 'maxPages',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 100,
+        description: 'Safety cap on the number of pages fetched',
+      },
+      {
+        displayName: 'Order',
+        name: 'order',
+        type: 'options' as const,
+        options: SORT_ORDERS,
+        default: 'asc',
+        description:
+          'Sort order by creation date. When not set, transactions are listed newest first if Created After is set and oldest first otherwise.',
+      },
+      {
+        displayName: 'Page Size',
+        name: 'pageSize',
+        type: 'number' as const,
+        typeOptions: {
+          minValue: 1,
+          maxValue: 100,
+        },
+        default: 20,
+        description: 'Number of records requested per API call',
+      },
+    ],
+  },
+  // Filters for List
+  {
+    displayName: 'Filters',
+    name: 'transactionFilters',
+    type: 'collection' as const,
+    placeholder: 'Add Filter',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['list'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Created After',
+        name: 'createdAfter',
+        type: 'dateTime' as const,
+        default: '',
+        description: 'Only return transactions created at or after this time',
+      },
+      {
+        displayName: 'Created Before',
+        name: 'createdBefore',
+        type: 'dateTime' as const,
+        default: '',
+        description: 'Only return transactions created at or before this time',
+      },
+      {
+        displayName: 'Gateway Name or ID',
+        name: 'gatewayToken',
+        type: 'options' as const,
+        typeOptions: {
+          loadOptionsMethod: 'getGateways',
+        },
+        default: '',
+        description: LOAD_OPTIONS_DESCRIPTION,
+      },
+      {
+        displayName: 'Order ID',
+        name: 'orderId',
+        type: 'string' as const,
+        default: '',
+        description: 'Only return transactions with this order ID',
+      },
+      {
+        displayName: 'Payment Method Name or ID',
+        name: 'paymentMethodToken',
+        type: 'options' as const,
+        typeOptions: {
+          loadOptionsMethod: 'getPaymentMethods',
+        },
+        default: '',
+        description: LOAD_OPTIONS_DESCRIPTION,
+      },
+      {
+        displayName: 'States',
+        name: 'states',
+        type: 'multiOptions' as const,
+        options: TRANSACTION_STATES.map((state) => ({ name: toDisplayName(state), value: state })),
+        default: [],
+        description: 'Only return transactions in these states',
+      },
+      {
+        displayName: 'Transaction Types',
+        name: 'transactionTypes',
+        type: 'multiOptions' as const,
+        options: TRANSACTION_TYPES,
+        default: [],
+        description: 'Only return transactions of these types',
+      },
+    ],
+  },
+  // Stored Credential
+  {
+    displayName: 'Stored Credential',
+    name: 'storedCredential',
+    type: 'collection' as const,
+    placeholder: 'Add Stored Credential Field',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize'],
+      },
+    },
+    default: {},
+    description:
+      'Flag card-on-file charges so the card network can tell customer- and merchant-initiated transactions apart',
+    options: [
+      {
+        displayName: 'Initiator',
+        name: 'initiator',
+        type: 'options' as const,
+        options: STORED_CREDENTIAL_INITIATORS,
+        default: 'merchant',
+        description: 'Who initiated the transaction',
+      },
+      {
+        displayName: 'Network Transaction ID',
+        name: 'networkTransactionId',
+        type: 'string' as const,
+        default: '',
+        description:
+          'Network transaction ID of the initial transaction. Overrides the referenced transaction.',
+      },
+      {
+        displayName: 'Previous Transaction Token',
+        name: 'previousTransactionToken',
+        type: 'string' as const,
+        default: '',
+        description:
+          'Transaction whose network transaction ID is carried forward to this subsequent transaction',
+      },
+      {
+        displayName: 'Reason Type',
+        name: 'reasonType',
+        type: 'options' as const,
+        options: STORED_CREDENTIAL_REASON_TYPES,
+        default: 'recurring',
+        description: 'Why the stored credential is used',
+      },
+      {
+        displayName: 'Sequence',
+        name: 'sequence',
+        type: 'options' as const,
+        options: STORED_CREDENTIAL_SEQUENCES,
+        default: 'subsequent',
+        description:
+          'Whether this is the first transaction with the stored credential or a later one',
+      },
+    ],
+  },
+  // Gateway Specific Fields
+  {
+    displayName: 'Gateway Specific Fields',
+    name: 'gatewaySpecificFields',
+    type: 'fixedCollection' as const,
+    placeholder: 'Add Gateway Field',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize', 'verify', 'generalCredit'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Field',
+        name: 'fieldValues',
+        values: [
+          {
+            displayName: 'Name',
+            name: 'key',
+            type: 'string' as const,
+            default: '',
+            placeholder: 'statement_descriptor',
+            description: 'Field name as documented for the gateway',
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string' as const,
+            default: '',
+            description: 'Field value',
+          },
+        ],
+      },
+    ],
+    description:
+      'Extra parameters for the gateway, sent under the gateway type of the selected gateway (for example Adyen shopper_reference or Stripe statement_descriptor)',
+  },
+  {
+    displayName: 'Gateway Specific Fields (JSON)',
+    name: 'gatewaySpecificFieldsJson',
+    type: 'json' as const,
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize', 'verify', 'generalCredit'],
+      },
+    },
+    default: '',
+    description:
+      'Fields for the selected gateway as JSON, or an object keyed by gateway type. Name/value fields above take precedence.',
+  },
+  // Metadata
+  {
+    displayName: 'Metadata',
+    name: 'metadata',
+    type: 'fixedCollection' as const,
+    placeholder: 'Add Metadata',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize', 'verify', 'generalCredit'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Metadata',
+        name: 'metadataValues',
+        values: [
+          {
+            displayName: 'Key',
+            name: 'key',
+            type: 'string' as const,
+            default: '',
+            description: 'Metadata key',
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string' as const,
+            default: '',
+            description: 'Metadata value',
+          },
+        ],
+      },
+    ],
+    description: 'Key/value pairs stored with the transaction, such as tenant or campaign IDs',
+  },
   // Additional Transaction Fields
   {
     displayName: 'Additional Fields',
@@ -411,7 +1482,7 @@ export const transactionFields = [
     displayOptions: {
       show: {
         resource: ['transaction'],
-        operation: ['purchase', 'authorize'],
+        operation: ['purchase', 'purchaseWithFailover', 'authorize'],
       },
     },
     default: {},
@@ -0,0 +1,169 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * A credential a gateway auth mode needs, as listed by /gateways_options.json
+ */
+export interface IGatewayCredentialField {
+  name: string;
+  label: string;
+  safe?: boolean;
+  large?: boolean;
+}
+
+/**
+ * A way of authenticating against a gateway, with the credentials it requires
+ */
+export interface IGatewayAuthMode {
+  auth_mode_type: string;
+  name: string;
+  credentials: IGatewayCredentialField[];
+}
+
+/**
+ * A gateway type supported by Spreedly
+ */
+export interface IGatewayCatalogEntry {
+  gateway_type: string;
+  name: string;
+  auth_modes: IGatewayAuthMode[];
+}
+
+/**
+ * Bundled snapshot of /gateways_options.json, used when the endpoint cannot be reached
+ */
+export const GATEWAY_CATALOG_SNAPSHOT: IGatewayCatalogEntry[] = [
+  {
+    gateway_type: 'test',
+    name: 'Spreedly Test',
+    auth_modes: [{ auth_mode_type: 'default', name: 'Default', credentials: [] }],
+  },
+  {
+    gateway_type: 'stripe',
+    name: 'Stripe',
+    auth_modes: [
+      {
+        auth_mode_type: 'default',
+        name: 'Default',
+        credentials: [{ name: 'login', label: 'Secret Key' }],
+      },
+    ],
+  },
+  {
+    gateway_type: 'braintree',
+    name: 'Braintree',
+    auth_modes: [
+      {
+        auth_mode_type: 'orange',
+        name: 'Braintree Orange',
+        credentials: [
+          { name: 'login', label: 'Username', safe: true },
+          { name: 'password', label: 'Password' },
+        ],
+      },
+      {
+        auth_mode_type: 'blue',
+        name: 'Braintree Blue',
+        credentials: [
+          { name: 'merchant_id', label: 'Merchant ID', safe: true },
+          { name: 'public_key', label: 'Public Key', safe: true },
+          { name: 'private_key', label: 'Private Key' },
+        ],
+      },
+    ],
+  },
+  {
+    gateway_type: 'adyen',
+    name: 'Adyen',
+    auth_modes: [
+      {
+        auth_mode_type: 'default',
+        name: 'Username and Password',
+        credentials: [
+          { name: 'username', label: 'Username', safe: true },
+          { name: 'password', label: 'Password' },
+          { name: 'merchant_account', label: 'Merchant Account', safe: true },
+        ],
+      },
+      {
+        auth_mode_type: 'api_key',
+        name: 'API Key',
+        credentials: [
+          { name: 'api_key', label: 'API Key' },
+          { name: 'merchant_account', label: 'Merchant Account', safe: true },
+        ],
+      },
+    ],
+  },
+  {
+    gateway_type: 'authorize_net',
+    name: 'Authorize.Net',
+    auth_modes: [
+      {
+        auth_mode_type: 'default',
+        name: 'Default',
+        credentials: [
+          { name: 'login', label: 'API Login ID', safe: true },
+          { name: 'password', label: 'Transaction Key' },
+        ],
+      },
+    ],
+  },
+  {
+    gateway_type: 'checkout_v2',
+    name: 'Checkout.com',
+    auth_modes: [
+      {
+        auth_mode_type: 'default',
+        name: 'Default',
+        credentials: [{ name: 'secret_key', label: 'Secret Key' }],
+      },
+    ],
+  },
+  {
+    gateway_type: 'cyber_source',
+    name: 'CyberSource',
+    auth_modes: [
+      {
+        auth_mode_type: 'default',
+        name: 'Default',
+        credentials: [
+          { name: 'login', label: 'Merchant ID', safe: true },
+          { name: 'password', label: 'Transaction Key' },
+        ],
+      },
+    ],
+  },
+  {
+    gateway_type: 'nmi',
+    name: 'NMI',
+    auth_modes: [
+      {
+        auth_mode_type: 'default',
+        name: 'Default',
+        credentials: [
+          { name: 'login', label: 'Username', safe: true },
+          { name: 'password', label: 'Password' },
+        ],
+      },
+    ],
+  },
+  {
+    gateway_type: 'worldpay',
+    name: 'Worldpay',
+    auth_modes: [
+      {
+        auth_mode_type: 'default',
+        name: 'Default',
+        credentials: [
+          { name: 'login', label: 'Login', safe: true },
+          { name: 'password', label: 'Password' },
+        ],
+      },
+    ],
+  },
+];
@@ -5,13 +5,57 @@
  * See LICENSE file for details.
  */
 
+export * from './gatewayCatalog';
+
 /**
  * Spreedly API base URL
  */
 export const SPREEDLY_API_BASE_URL = 'https://core.spreedly.com/v1';
 
 /**
- * Supported payment gateway types in Spreedly
+ * Description of token parameters backed by a dropdown
+ */
+export const LOAD_OPTIONS_DESCRIPTION =
+  'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>';
+
+/**
+ * Pagination defaults and safety caps for list endpoints
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_MAX_PAGES = 100;
+export const DEFAULT_MAX_ITEMS = 10000;
+
+/**
+ * Retry defaults for transient API failures
+ */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRYABLE_STATUS_CODES = '429,500,502,503,504';
+export const RETRY_BASE_DELAY_MS = 500;
+export const RETRY_MAX_DELAY_MS = 30000;
+
+/**
+ * Network error codes treated as transient
+ */
+export const RETRYABLE_NETWORK_ERRORS = [
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+
+/**
+ * Sort orders supported by list endpoints
+ */
+export const SORT_ORDERS = [
+  { name: 'Ascending (Oldest First)', value: 'asc' },
+  { name: 'Descending (Newest First)', value: 'desc' },
+];
+
+/**
+ * Supported payment gateway types in Spreedly, used when the gateway catalog is incomplete
  */
 export const GATEWAY_TYPES = [
   { name: 'Stripe', value: 'stripe' },
@@ -70,6 +114,40 @@ export const CARD_TYPES = [
   { name: 'Maestro', value: 'maestro' },
 ];
 
+/**
+ * CVV length by card type
+ */
+export const CARD_CVV_LENGTHS: Record<string, number> = {
+  visa: 3,
+  master: 3,
+  american_express: 4,
+  discover: 3,
+  jcb: 3,
+  diners_club: 3,
+  maestro: 3,
+};
+
+/**
+ * Card pre-flight validation modes
+ */
+export const CARD_VALIDATION_MODES = [
+  {
+    name: 'Fail Item',
+    value: 'fail',
+    description: 'Stop the item with an error before calling Spreedly',
+  },
+  {
+    name: 'Annotate',
+    value: 'annotate',
+    description: 'Skip tokenization of invalid cards and output the validation result instead',
+  },
+  {
+    name: 'Off',
+    value: 'off',
+    description: 'Send the card to Spreedly without checks',
+  },
+];
+
 /**
  * Payment method types
  */
@@ -92,6 +170,86 @@ export const TRANSACTION_STATES = [
   'gateway_processing_result_unknown',
 ];
 
+/**
+ * Transaction operations that create a transaction with a gateway outcome
+ */
+export const TRANSACTION_OUTCOME_OPERATIONS = [
+  'purchase',
+  'purchaseWithFailover',
+  'authorize',
+  'capture',
+  'void',
+  'refund',
+  'generalCredit',
+  'verify',
+];
+
+/**
+ * Transaction types reported in transaction_type
+ */
+export const TRANSACTION_TYPES = [
+  { name: 'Add Payment Method', value: 'AddPaymentMethod' },
+  { name: 'Authorization', value: 'Authorization' },
+  { name: 'Capture', value: 'Capture' },
+  { name: 'Credit', value: 'Credit' },
+  { name: 'General Credit', value: 'GeneralCredit' },
+  { name: 'Purchase', value: 'Purchase' },
+  { name: 'Redact Payment Method', value: 'RedactPaymentMethod' },
+  { name: 'Retain Payment Method', value: 'RetainPaymentMethod' },
+  { name: 'Store', value: 'Store' },
+  { name: 'Verification', value: 'Verification' },
+  { name: 'Void', value: 'Void' },
+];
+
+/**
+ * Transaction states that block a new charge under the same idempotency key.
+ * Failed attempts may be retried; unknown results must be investigated first.
+ */
+export const IDEMPOTENT_REUSABLE_STATES = [
+  'succeeded',
+  'pending',
+  'processing',
+  'gateway_processing_result_unknown',
+];
+
+/**
+ * Number of recent gateway transactions searched for an idempotency key
+ */
+export const IDEMPOTENCY_LOOKBACK = 500;
+
+/**
+ * Stored credential initiators
+ */
+export const STORED_CREDENTIAL_INITIATORS = [
+  { name: 'Customer-Initiated (CIT)', value: 'cardholder' },
+  { name: 'Merchant-Initiated (MIT)', value: 'merchant' },
+];
+
+/**
+ * Stored credential reason types
+ */
+export const STORED_CREDENTIAL_REASON_TYPES = [
+  { name: 'Recurring', value: 'recurring' },
+  { name: 'Installment', value: 'installment' },
+  { name: 'Unscheduled', value: 'unscheduled' },
+];
+
+/**
+ * Position of a transaction in a stored credential chain
+ */
+export const STORED_CREDENTIAL_SEQUENCES = [
+  {
+    name: 'Initial',
+    value: 'initial',
+    description: 'First transaction that stores the credential',
+  },
+  {
+    name: 'Subsequent',
+    value: 'subsequent',
+    description: 'Later transaction that reuses the stored credential',
+  },
+];
+
 /**
  * Currency codes (ISO 4217)
  */
@@ -126,6 +284,66 @@ export const THREE_D_SECURE_VERSIONS = [
   { name: '3DS 2.0', value: '2' },
 ];
 
+/**
+ * Batched callback keys and the record key each batch entry is parsed as
+ */
+export const WEBHOOK_BATCH_KEYS: Record<string, string> = {
+  transactions: 'transaction',
+  payment_methods: 'payment_method',
+  gateways: 'gateway',
+  receivers: 'receiver',
+  certificates: 'certificate',
+};
+
+/**
+ * How long webhook deliveries are remembered for deduplication, in minutes
+ */
+export const DEFAULT_DEDUPLICATION_WINDOW_MINUTES = 1440;
+
+/**
+ * Order of record states, for telling a stale webhook delivery from a newer one.
+ * States not listed rank 1, after pending and cached records and before redacted ones.
+ */
+export const EVENT_STATE_ORDER: Record<string, number> = {
+  pending: 0,
+  processing: 0,
+  cached: 0,
+  redacted: 2,
+};
+
+/**
+ * Transaction states that can still change, such as async and 3DS payments awaiting settlement
+ */
+export const NON_TERMINAL_TRANSACTION_STATES = ['pending', 'processing'];
+
+/**
+ * Limits for re-checking pending transactions the polling trigger's filters skipped
+ */
+export const MAX_PENDING_TRANSACTION_RECHECKS = 100;
+export const PENDING_TRANSACTION_RECHECK_HOURS = 72;
+
+/**
+ * Records the polling trigger can watch
+ */
+export const POLLING_RESOURCES = [
+  {
+    name: 'New Transactions',
+    value: 'transaction',
+    description: 'Transactions created since the last poll',
+  },
+  {
+    name: 'New Payment Methods',
+    value: 'paymentMethod',
+    description:
+      'Payment methods created since the last poll. Retained, redacted or updated payment methods are not detected.',
+  },
+  {
+    name: 'New or Changed Gateways',
+    value: 'gateway',
+    description: 'Gateways added or updated since the last poll',
+  },
+];
+
 /**
  * Webhook event types
  */
@@ -145,6 +363,72 @@ export const WEBHOOK_EVENT_TYPES = [
   { name: 'Certificate - Added', value: 'certificate.added' },
 ];
 
+/**
+ * HMAC algorithms Spreedly may name in a callback record's signed block
+ */
+export const WEBHOOK_SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha512'];
+
+/**
+ * Webhook signature verification modes
+ */
+export const WEBHOOK_SIGNATURE_MODES = [
+  {
+    name: 'Reject Invalid',
+    value: 'reject',
+    description: 'Respond with 401 and do not start the workflow',
+  },
+  {
+    name: 'Tag as Unverified',
+    value: 'tag',
+    description: 'Start the workflow and set signatureVerified to false',
+  },
+  {
+    name: 'Off',
+    value: 'off',
+    description: 'Do not verify signatures',
+  },
+];
+
+/**
+ * Keys removed from output by sensitive data redaction
+ */
+export const REDACTED_DROP_KEYS = [
+  'verification_value',
+  'cvv',
+  'cvc',
+  'cvv2',
+  'card_code',
+  'cardcode',
+  'security_code',
+  'securitycode',
+];
+
+/**
+ * Keys whose values are masked to the last four digits
+ */
+export const REDACTED_MASK_KEYS = [
+  'number',
+  'full_number',
+  'account_number',
+  'routing_number',
+  'bank_account_number',
+  'bank_routing_number',
+  'card_number',
+  'cardnumber',
+  'accountnumber',
+  'routingnumber',
+];
+
+/**
+ * Keys holding gateway and Spreedly identifiers, which are never scanned for card numbers
+ */
+export const REDACTION_IDENTIFIER_KEY_PATTERN = /^(?:id|token)$|_(?:id|token)$|[a-z](?:Id|Token)$/;
+
+/**
+ * Header keys whose values are replaced entirely
+ */
+export const REDACTED_HEADER_KEYS = ['authorization', 'proxy-authorization'];
+
 /**
  * API response success indicators
  */
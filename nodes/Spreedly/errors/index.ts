@@ -0,0 +1,181 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, INode, JsonObject } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import { formatErrorMessage } from '../utils';
+
+/**
+ * Failure categories workflows can branch on
+ */
+export type SpreedlyErrorCategory =
+  | 'validation'
+  | 'authentication'
+  | 'notFound'
+  | 'rateLimit'
+  | 'gatewayDecline'
+  | 'gatewayError'
+  | 'unknownResult'
+  | 'pending'
+  | 'server'
+  | 'network'
+  | 'unknown';
+
+/**
+ * A single entry of a Spreedly errors[] array
+ */
+export interface ISpreedlyErrorDetail {
+  key?: string;
+  attribute?: string;
+  message: string;
+}
+
+/**
+ * Parses every entry of a Spreedly errors[] array
+ */
+export function parseSpreedlyErrors(body: any): ISpreedlyErrorDetail[] {
+  if (!body || !Array.isArray(body.errors)) {
+    return [];
+  }
+  return body.errors.map((entry: any) =>
+    typeof entry === 'string'
+      ? { message: entry }
+      : {
+          ...(entry.key && { key: entry.key }),
+          ...(entry.attribute && { attribute: entry.attribute }),
+          message: entry.message ?? String(entry.key ?? 'Unknown error'),
+        },
+  );
+}
+
+/**
+ * Tells a gateway decline apart from a processing failure, an unknown result or a pending
+ * transaction. Only declines are safe to retry with another card; unrecognised states are
+ * treated as unknown since the charge may have gone through.
+ */
+export function categorizeFailedTransaction(transaction: IDataObject): SpreedlyErrorCategory {
+  switch (transaction.state) {
+    case 'failed':
+      return 'gatewayDecline';
+    case 'gateway_processing_failed':
+      return 'gatewayError';
+    case 'pending':
+    case 'processing':
+      return 'pending';
+    default:
+      return 'unknownResult';
+  }
+}
+
+/**
+ * Categorizes a failed API call from its status code and response body
+ */
+export function categorizeSpreedlyError(
+  statusCode: number | undefined,
+  body: any,
+): SpreedlyErrorCategory {
+  if (statusCode === undefined) {
+    return 'network';
+  }
+  if (body?.transaction) {
+    return categorizeFailedTransaction(body.transaction);
+  }
+  if (statusCode === 401 || statusCode === 403) {
+    return 'authentication';
+  }
+  if (statusCode === 404) {
+    return 'notFound';
+  }
+  if (statusCode === 429) {
+    return 'rateLimit';
+  }
+  if (statusCode === 400 || statusCode === 422) {
+    return 'validation';
+  }
+  if (statusCode >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+}
+
+/**
+ * Error raised for failed Spreedly API calls, carrying every errors[] entry
+ */
+export class SpreedlyApiError extends NodeApiError {
+  category: SpreedlyErrorCategory;
+
+  details: ISpreedlyErrorDetail[];
+
+  transaction?: IDataObject;
+
+  constructor(node: INode, error: any, statusCode: number | undefined, body: any) {
+    const details = parseSpreedlyErrors(body);
+    const transaction = body?.transaction as IDataObject | undefined;
+    const message =
+      (details.length > 0 && formatErrorMessage({ errors: details })) ||
+      (transaction?.message as string) ||
+      body?.message ||
+      error.message;
+
+    super(node, error as JsonObject, {
+      message: `Spreedly API Error: ${message}`,
+      description: details
+        .map((detail) => [detail.attribute, detail.message].filter(Boolean).join(': '))
+        .join('\n'),
+      ...(statusCode !== undefined && { httpCode: statusCode.toString() }),
+    });
+
+    this.category = categorizeSpreedlyError(statusCode, body);
+    this.details = details;
+    this.transaction = transaction;
+  }
+}
+
+/**
+ * Error raised for transactions that the gateway did not approve
+ */
+export class SpreedlyTransactionError extends NodeOperationError {
+  category: SpreedlyErrorCategory;
+
+  transaction: IDataObject;
+
+  constructor(node: INode, transaction: IDataObject, itemIndex: number) {
+    const outcome = (transaction.outcome as IDataObject) || {};
+    const reason = outcome.message ?? 'no message';
+    super(node, `Spreedly transaction ${transaction.token} ${outcome.state ?? 'failed'}: ${reason}`, {
+      itemIndex,
+      ...(outcome.errorCode ? { description: `Gateway error code: ${outcome.errorCode}` } : {}),
+    });
+
+    this.category = categorizeFailedTransaction(transaction);
+    this.transaction = transaction;
+  }
+}
+
+/**
+ * Builds the continueOnFail output for an error
+ */
+export function getErrorOutput(error: any): IDataObject {
+  if (error instanceof SpreedlyTransactionError) {
+    return {
+      error: error.message,
+      errorCategory: error.category,
+      outcome: error.transaction.outcome,
+      transaction: error.transaction,
+    };
+  }
+  if (error instanceof SpreedlyApiError) {
+    return {
+      error: error.message,
+      errorCategory: error.category,
+      httpCode: error.httpCode,
+      errors: error.details as unknown as IDataObject[],
+      ...(error.transaction && { transaction: error.transaction }),
+    };
+  }
+  return { error: error.message };
+}
@@ -0,0 +1,186 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  IDataObject,
+  ILoadOptionsFunctions,
+  INodePropertyOptions,
+  ResourceMapperFields,
+} from 'n8n-workflow';
+import { spreedlyApiRequestAllItems, isSandboxGateway, getGatewayCatalog } from '../transport';
+import { findGatewayAuthMode } from '../utils';
+import { GATEWAY_TYPES, MAX_PAGE_SIZE } from '../constants';
+
+/**
+ * Fetches the most recent records of a list endpoint for a dropdown
+ */
+async function listForOptions(
+  this: ILoadOptionsFunctions,
+  endpoint: string,
+  propertyName: string,
+): Promise<IDataObject[]> {
+  return spreedlyApiRequestAllItems.call(this, 'GET', endpoint, propertyName, {}, {}, {
+    order: 'desc',
+    pageSize: MAX_PAGE_SIZE,
+    maxPages: 5,
+  });
+}
+
+/**
+ * Dynamic dropdown options for token parameters
+ */
+export const loadOptions = {
+  /**
+   * Retained gateways with their type, name and mode
+   */
+  async getGateways(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+    const gateways = await listForOptions.call(this, '/gateways.json', 'gateways');
+    return gateways
+      .filter((gateway) => gateway.state === 'retained')
+      .map((gateway) => {
+        const mode = isSandboxGateway(gateway) ? 'Sandbox' : 'Live';
+        const label = (gateway.name as string) || (gateway.gateway_type as string);
+        return {
+          name: `${label} (${gateway.gateway_type}, ${mode})`,
+          value: gateway.token as string,
+          description: gateway.token as string,
+        };
+      });
+  },
+
+  /**
+   * Gateway types from the gateway catalog, completed with the bundled list
+   */
+  async getGatewayTypes(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+    const catalog = await getGatewayCatalog.call(this);
+    const options: INodePropertyOptions[] = catalog.map((gateway) => ({
+      name: gateway.name,
+      value: gateway.gateway_type,
+    }));
+    for (const gatewayType of GATEWAY_TYPES) {
+      if (!catalog.some((gateway) => gateway.gateway_type === gatewayType.value)) {
+        options.push(gatewayType);
+      }
+    }
+    return options.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  /**
+   * Auth modes of the selected gateway type
+   */
+  async getGatewayAuthModes(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+    const gatewayType = this.getCurrentNodeParameter('gatewayType') as string;
+    const catalog = await getGatewayCatalog.call(this);
+    const gateway = catalog.find((entry) => entry.gateway_type === gatewayType);
+    return (gateway?.auth_modes ?? []).map((authMode) => ({
+      name: authMode.name,
+      value: authMode.auth_mode_type,
+      description: authMode.credentials.map((credential) => credential.label).join(', '),
+    }));
+  },
+
+  /**
+   * Secret credentials of the selected gateway type and auth mode, entered as masked values
+   */
+  async getGatewaySecretCredentials(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+    const gatewayType = this.getCurrentNodeParameter('gatewayType') as string;
+    const authModeType = this.getCurrentNodeParameter('authMode') as string | undefined;
+    const catalog = await getGatewayCatalog.call(this);
+    const authMode = findGatewayAuthMode(catalog, gatewayType, authModeType);
+    return (authMode?.credentials ?? [])
+      .filter((credential) => !credential.safe)
+      .map((credential) => ({
+        name: credential.label,
+        value: credential.name,
+      }));
+  },
+
+  /**
+   * Recently created payment methods that are still stored
+   */
+  async getPaymentMethods(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+    const paymentMethods = await listForOptions.call(
+      this,
+      '/payment_methods.json',
+      'payment_methods',
+    );
+    return paymentMethods
+      .filter((paymentMethod) => paymentMethod.storage_state !== 'redacted')
+      .map((paymentMethod) => {
+        const fullName = [paymentMethod.first_name, paymentMethod.last_name]
+          .filter(Boolean)
+          .join(' ');
+        const details = paymentMethod.last_four_digits
+          ? `${paymentMethod.card_type ?? 'card'} •••• ${paymentMethod.last_four_digits}`
+          : (paymentMethod.payment_method_type as string);
+        return {
+          name: fullName ? `${fullName} (${details})` : details,
+          value: paymentMethod.token as string,
+          description: `${paymentMethod.token} · ${paymentMethod.storage_state}`,
+        };
+      });
+  },
+
+  /**
+   * Receivers with their type and hostnames
+   */
+  async getReceivers(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+    const receivers = await listForOptions.call(this, '/receivers.json', 'receivers');
+    return receivers
+      .filter((receiver) => receiver.state !== 'redacted')
+      .map((receiver) => ({
+        name: `${receiver.receiver_type}${receiver.hostnames ? ` (${receiver.hostnames})` : ''}`,
+        value: receiver.token as string,
+        description: receiver.token as string,
+      }));
+  },
+
+  /**
+   * Certificates with their type and creation date
+   */
+  async getCertificates(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+    const certificates = await listForOptions.call(this, '/certificates.json', 'certificates');
+    return certificates.map((certificate) => {
+      const label = (certificate.certificate_type ??
+        certificate.algorithm ??
+        'certificate') as string;
+      return {
+        name: `${label} (created ${certificate.created_at})`,
+        value: certificate.token as string,
+        description: certificate.token as string,
+      };
+    });
+  },
+};
+
+/**
+ * Dynamic field lists for resource mapper parameters
+ */
+export const resourceMapping = {
+  /**
+   * Non-secret credential inputs of the selected gateway type and auth mode. Secrets are
+   * entered under Secret Credentials, where they stay masked.
+   */
+  async getGatewayCredentialFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+    const gatewayType = this.getCurrentNodeParameter('gatewayType') as string;
+    const authModeType = this.getCurrentNodeParameter('authMode') as string | undefined;
+    const catalog = await getGatewayCatalog.call(this);
+    const authMode = findGatewayAuthMode(catalog, gatewayType, authModeType);
+    return {
+      fields: (authMode?.credentials ?? [])
+        .filter((credential) => credential.safe)
+        .map((credential) => ({
+          id: credential.name,
+          displayName: credential.label,
+          required: true,
+          defaultMatch: false,
+          display: true,
+          type: 'string',
+        })),
+    };
+  },
+};
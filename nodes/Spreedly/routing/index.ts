@@ -0,0 +1,199 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { spreedlyApiRequest } from '../transport';
+
+/**
+ * A declarative rule choosing the gateway for a transaction
+ */
+export interface IRoutingRule {
+  /** Position of the rule in the Routing Rules list, counting skipped entries */
+  index: number;
+  name: string;
+  gatewayToken: string;
+  currencies: string[];
+  cardTypes: string[];
+  binCountries: string[];
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+/**
+ * The transaction details routing rules are matched against
+ */
+export interface IRoutingContext {
+  currency: string;
+  amount?: number;
+  cardType?: string;
+  binCountry?: string;
+}
+
+/**
+ * The gateway chosen for a transaction, with the routing decision when rules were used
+ */
+export interface IGatewaySelection {
+  gatewayToken: string;
+  routing?: IDataObject;
+}
+
+/**
+ * Converts the Routing Rules fixedCollection entries into rules, skipping ones without a gateway
+ */
+export function parseRoutingRules(values: IDataObject[] = []): IRoutingRule[] {
+  return values
+    .map((value, index) => ({
+      index,
+      name: ((value.name as string) || '').trim() || `Rule ${index + 1}`,
+      gatewayToken: ((value.gatewayToken as string) || '').trim(),
+      currencies: (value.currencies as string[]) ?? [],
+      cardTypes: (value.cardTypes as string[]) ?? [],
+      binCountries: ((value.binCountries as string) || '')
+        .split(',')
+        .map((country) => country.trim().toUpperCase())
+        .filter(Boolean),
+      minAmount: (value.minAmount as number) || undefined,
+      maxAmount: (value.maxAmount as number) || undefined,
+    }))
+    .filter((rule) => rule.gatewayToken);
+}
+
+/**
+ * Checks whether a rule needs the payment method's card brand or BIN country
+ */
+export function ruleNeedsPaymentMethod(rule: IRoutingRule): boolean {
+  return rule.cardTypes.length > 0 || rule.binCountries.length > 0;
+}
+
+/**
+ * Checks whether every condition of a rule holds; empty conditions match anything
+ */
+export function matchesRoutingRule(rule: IRoutingRule, context: IRoutingContext): boolean {
+  if (rule.currencies.length > 0 && !rule.currencies.includes(context.currency)) {
+    return false;
+  }
+  if (rule.cardTypes.length > 0 && !rule.cardTypes.includes(context.cardType ?? '')) {
+    return false;
+  }
+  if (
+    rule.binCountries.length > 0 &&
+    !rule.binCountries.includes((context.binCountry ?? '').toUpperCase())
+  ) {
+    return false;
+  }
+  if (rule.minAmount !== undefined || rule.maxAmount !== undefined) {
+    if (context.amount === undefined) {
+      return false;
+    }
+    if (rule.minAmount !== undefined && context.amount < rule.minAmount) {
+      return false;
+    }
+    if (rule.maxAmount !== undefined && context.amount > rule.maxAmount) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Reads the issuing country of a card from the payment method's BIN metadata
+ */
+export function getBinCountry(paymentMethod: IDataObject): string | undefined {
+  const binMetadata = (paymentMethod.bin_metadata as IDataObject) || {};
+  const country = binMetadata.issuing_country_iso_a2_code ?? binMetadata.country;
+  return country ? (country as string).toUpperCase() : undefined;
+}
+
+/**
+ * Chooses the gateway from the Routing Rules, looking up the payment method
+ * only when a rule matches on card brand or BIN country
+ */
+export async function routeGateway(
+  this: IExecuteFunctions,
+  i: number,
+  paymentMethodToken: string,
+  currency: string,
+  amount?: number,
+): Promise<IGatewaySelection> {
+  const routingRules = this.getNodeParameter('routingRules', i, {}) as IDataObject;
+  const defaultGatewayToken = this.getNodeParameter('defaultGatewayToken', i, '') as string;
+  const rules = parseRoutingRules(routingRules.ruleValues as IDataObject[]);
+
+  const context: IRoutingContext = { currency, amount };
+  if (rules.some(ruleNeedsPaymentMethod)) {
+    const response = await spreedlyApiRequest.call(
+      this,
+      'GET',
+      `/payment_methods/${paymentMethodToken}.json`,
+    );
+    const paymentMethod = (response.payment_method as IDataObject) || {};
+    context.cardType = paymentMethod.card_type as string | undefined;
+    context.binCountry = getBinCountry(paymentMethod);
+  }
+
+  const matchedOn = {
+    currency,
+    amount: amount ?? null,
+    cardType: context.cardType ?? null,
+    binCountry: context.binCountry ?? null,
+  };
+
+  const rule = rules.find((candidate) => matchesRoutingRule(candidate, context));
+  if (!rule) {
+    if (!defaultGatewayToken) {
+      throw new NodeOperationError(
+        this.getNode(),
+        'No routing rule matched and no default gateway is set',
+        {
+          itemIndex: i,
+          description: Object.entries(matchedOn)
+            .map(([field, value]) => `${field}: ${value}`)
+            .join(', '),
+        },
+      );
+    }
+    return {
+      gatewayToken: defaultGatewayToken,
+      routing: {
+        rule: 'Default',
+        ruleIndex: null,
+        isDefault: true,
+        gatewayToken: defaultGatewayToken,
+        matchedOn,
+      },
+    };
+  }
+
+  return {
+    gatewayToken: rule.gatewayToken,
+    routing: {
+      rule: rule.name,
+      ruleIndex: rule.index,
+      isDefault: false,
+      gatewayToken: rule.gatewayToken,
+      matchedOn,
+    },
+  };
+}
+
+/**
+ * Reads the fixed gateway, or routes to one when Gateway Selection uses rules
+ */
+export async function selectGateway(
+  this: IExecuteFunctions,
+  i: number,
+  paymentMethodToken: string,
+  currency: string,
+  amount?: number,
+): Promise<IGatewaySelection> {
+  const gatewaySelection = this.getNodeParameter('gatewaySelection', i, 'fixed') as string;
+  if (gatewaySelection === 'rules') {
+    return routeGateway.call(this, i, paymentMethodToken, currency, amount);
+  }
+  return { gatewayToken: this.getNodeParameter('gatewayToken', i) as string };
+}
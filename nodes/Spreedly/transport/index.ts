@@ -11,15 +11,286 @@ import type {
   IHttpRequestMethods,
   IHttpRequestOptions,
   IDataObject,
+  ICredentialDataDecryptedObject,
+  ICredentialTestFunctions,
+  ICredentialsDecrypted,
+  INodeCredentialTestResult,
+  IWebhookFunctions,
+  IPollFunctions,
 } from 'n8n-workflow';
-import { NodeApiError } from 'n8n-workflow';
-import { SPREEDLY_API_BASE_URL } from '../constants';
+import { NodeOperationError, sleep } from 'n8n-workflow';
+import { randomUUID } from 'crypto';
+import {
+  SPREEDLY_API_BASE_URL,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  DEFAULT_MAX_PAGES,
+  DEFAULT_MAX_ITEMS,
+  DEFAULT_MAX_ATTEMPTS,
+  DEFAULT_RETRYABLE_STATUS_CODES,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  RETRYABLE_NETWORK_ERRORS,
+  GATEWAY_CATALOG_SNAPSHOT,
+} from '../constants';
+import type { IGatewayCatalogEntry } from '../constants';
+import { SpreedlyApiError } from '../errors';
+
+/**
+ * Retry settings for transient API failures
+ */
+export interface IRetryPolicy {
+  maxAttempts: number;
+  retryableStatusCodes: number[];
+}
+
+/**
+ * Pagination settings for list endpoints
+ */
+export interface IPaginationOptions {
+  pageSize?: number;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  maxPages?: number;
+  maxItems?: number;
+  /** Client-side filter; only matching items count towards the limit */
+  filter?: (item: IDataObject) => boolean;
+  /** Stops paging once an item matches, e.g. when a date range has been passed */
+  until?: (item: IDataObject) => boolean;
+  /** Called when the page or item safety cap stopped paging before the results ran out */
+  onCapReached?: (cap: 'maxPages' | 'maxItems') => void;
+}
+
+/**
+ * Gateway endpoints that move money or touch card data at the gateway
+ */
+const GATEWAY_ACTION_ENDPOINT =
+  /^\/gateways\/([^/]+)\/(purchase|authorize|general_credit|verify|store|initialize_3ds|lookup_3ds)\.json$/;
+
+/**
+ * Money-moving endpoints that must not be retried without checking for an existing transaction
+ */
+const GATEWAY_MONEY_ENDPOINT = /^\/gateways\/([^/]+)\/(purchase|authorize|general_credit)\.json$/;
+const TRANSACTION_MONEY_ENDPOINT =
+  /^\/transactions\/([^/]+)\/(capture|credit|void|complete)\.json$/;
+
+/**
+ * Receiver deliveries can't be looked up afterwards, so they are never retried
+ */
+const RECEIVER_DELIVER_ENDPOINT = /^\/receivers\/([^/]+)\/deliver\.json$/;
+
+/**
+ * Transaction metadata key holding the nonce that identifies a gateway money-moving request
+ */
+export const RECONCILIATION_METADATA_KEY = 'n8n_request_id';
+
+/**
+ * Maps money-moving endpoint actions to the transaction_type they create
+ */
+const ACTION_TRANSACTION_TYPES: { [action: string]: string } = {
+  purchase: 'Purchase',
+  authorize: 'Authorization',
+  general_credit: 'GeneralCredit',
+  capture: 'Capture',
+  credit: 'Credit',
+  void: 'Void',
+};
+
+/**
+ * Resolves the API base URL from the credential, falling back to the public endpoint
+ */
+export function getBaseUrl(credentials: ICredentialDataDecryptedObject): string {
+  const baseUrl = ((credentials.baseUrl as string) || SPREEDLY_API_BASE_URL).trim();
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Checks whether a gateway is safe to use while the credential is in sandbox mode
+ */
+export function isSandboxGateway(gateway: IDataObject): boolean {
+  return gateway.gateway_type === 'test' || gateway.sandbox === true;
+}
+
+const gatewayCache = new WeakMap<object, Map<string, IDataObject>>();
+
+/**
+ * Fetches a gateway by token, cached for the current execution
+ */
+async function getGateway(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  gatewayToken: string,
+): Promise<IDataObject> {
+  let cache = gatewayCache.get(this);
+  if (!cache) {
+    cache = new Map();
+    gatewayCache.set(this, cache);
+  }
+
+  let gateway = cache.get(gatewayToken);
+  if (!gateway) {
+    const response = await spreedlyApiRequest.call(this, 'GET', `/gateways/${gatewayToken}.json`);
+    gateway = (response.gateway as IDataObject) || {};
+    cache.set(gatewayToken, gateway);
+  }
+  return gateway;
+}
+
+/**
+ * Resolves the gateway type of a gateway token, cached for the current execution
+ */
+export async function getGatewayType(
+  this: IExecuteFunctions | ILoadOptionsFunctions,
+  gatewayToken: string,
+): Promise<string> {
+  const gateway = await getGateway.call(this, gatewayToken);
+  return gateway.gateway_type as string;
+}
+
+const gatewayCatalogCache = new WeakMap<object, IGatewayCatalogEntry[]>();
+
+/**
+ * Loads the gateway catalog from Spreedly, falling back to the bundled snapshot when Spreedly
+ * cannot be reached or fails with a server error
+ */
+export async function getGatewayCatalog(
+  this: IExecuteFunctions | ILoadOptionsFunctions,
+): Promise<IGatewayCatalogEntry[]> {
+  let catalog = gatewayCatalogCache.get(this);
+  if (!catalog) {
+    try {
+      const response = await spreedlyApiRequest.call(this, 'GET', '/gateways_options.json');
+      catalog = normalizeGatewayCatalog(response?.gateways);
+    } catch (error: any) {
+      // Authentication and other client errors must not be hidden behind the snapshot
+      if (!['network', 'server'].includes(error.category)) {
+        throw error;
+      }
+      catalog = [];
+    }
+    if (catalog.length === 0) {
+      catalog = GATEWAY_CATALOG_SNAPSHOT;
+    }
+    gatewayCatalogCache.set(this, catalog);
+  }
+  return catalog;
+}
+
+/**
+ * Keeps the gateway type, auth modes and credential fields of a /gateways_options.json response
+ */
+function normalizeGatewayCatalog(gateways: unknown): IGatewayCatalogEntry[] {
+  if (!Array.isArray(gateways)) {
+    return [];
+  }
+
+  return gateways
+    .filter((gateway) => gateway?.gateway_type)
+    .map((gateway) => ({
+      gateway_type: gateway.gateway_type,
+      name: gateway.name ?? gateway.gateway_type,
+      auth_modes: (Array.isArray(gateway.auth_modes) ? gateway.auth_modes : []).map(
+        (authMode: IDataObject) => ({
+          auth_mode_type: authMode.auth_mode_type as string,
+          name: (authMode.name ?? authMode.auth_mode_type) as string,
+          credentials: (Array.isArray(authMode.credentials) ? authMode.credentials : []).map(
+            (credential: IDataObject) => ({
+              name: credential.name as string,
+              label: (credential.label ?? credential.name) as string,
+              safe: credential.safe as boolean | undefined,
+              large: credential.large as boolean | undefined,
+            }),
+          ),
+        }),
+      ),
+    }));
+}
+
+/**
+ * Resolves whether output is redacted; opting out is only allowed with sandbox credentials
+ */
+export async function isRedactionEnabled(
+  this: IExecuteFunctions | IWebhookFunctions | IPollFunctions,
+  redact: boolean,
+): Promise<boolean> {
+  if (redact) {
+    return true;
+  }
+
+  const credentials = await this.getCredentials('spreedlyApi');
+  if (!credentials.sandboxOnly) {
+    throw new NodeOperationError(
+      this.getNode(),
+      'Sensitive data redaction can only be turned off with sandbox credentials',
+      {
+        description:
+          'Turn on "Sandbox Only" on the Spreedly credential to debug with unredacted output',
+      },
+    );
+  }
+  return false;
+}
+
+/**
+ * Refuses requests that would create or use a live gateway while in sandbox mode
+ */
+async function assertSandboxSafe(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  method: IHttpRequestMethods,
+  endpoint: string,
+  body: IDataObject,
+): Promise<void> {
+  if (method !== 'POST') {
+    return;
+  }
+
+  if (endpoint === '/gateways.json') {
+    const gateway = (body.gateway as IDataObject) || {};
+    if (!isSandboxGateway(gateway)) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Sandbox mode refuses to create a "${gateway.gateway_type}" gateway`,
+        {
+          description:
+            'Use the "test" gateway type, enable the gateway\'s Sandbox field, or turn off "Sandbox Only" on the Spreedly credential',
+        },
+      );
+    }
+    return;
+  }
+
+  let gatewayToken = GATEWAY_ACTION_ENDPOINT.exec(endpoint)?.[1];
+  const transactionMatch = TRANSACTION_MONEY_ENDPOINT.exec(endpoint);
+  if (transactionMatch) {
+    // Captures, credits, voids and 3DS completions run on the gateway of the original transaction
+    const response = await spreedlyApiRequest.call(
+      this,
+      'GET',
+      `/transactions/${transactionMatch[1]}.json`,
+    );
+    gatewayToken = ((response.transaction as IDataObject) || {}).gateway_token as string;
+  }
+  if (gatewayToken === undefined) {
+    return;
+  }
+
+  const gateway = gatewayToken ? await getGateway.call(this, gatewayToken) : {};
+  if (!isSandboxGateway(gateway)) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Sandbox mode refuses to use gateway ${gatewayToken} of type "${gateway.gateway_type}"`,
+      {
+        description:
+          'Only test gateways and gateways in sandbox mode are allowed. Turn off "Sandbox Only" on the Spreedly credential to process live transactions.',
+      },
+    );
+  }
+}
 
 /**
  * Makes an authenticated request to the Spreedly API
  */
 export async function spreedlyApiRequest(
-  this: IExecuteFunctions | ILoadOptionsFunctions,
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
   method: IHttpRequestMethods,
   endpoint: string,
   body: IDataObject = {},
@@ -27,9 +298,16 @@ export async function spreedlyApiRequest(
 ): Promise<any> {
   const credentials = await this.getCredentials('spreedlyApi');
 
+  if (credentials.sandboxOnly === true) {
+    await assertSandboxSafe.call(this, method, endpoint, body);
+  }
+  if (method === 'POST') {
+    body = withReconciliationMarker(endpoint, body);
+  }
+
   const options: IHttpRequestOptions = {
     method,
-    url: `${SPREEDLY_API_BASE_URL}${endpoint}`,
+    url: `${getBaseUrl(credentials)}${endpoint}`,
     headers: {
       'Content-Type': 'application/json',
       Accept: 'application/json',
@@ -49,61 +327,369 @@ export async function spreedlyApiRequest(
     options.qs = query;
   }
 
+  const retryPolicy = getRetryPolicy.call(this);
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await this.helpers.httpRequest(options);
+    } catch (error: any) {
+      const statusCode = getResponseStatus(error);
+      if (attempt >= retryPolicy.maxAttempts || !isRetryableError(error, retryPolicy)) {
+        throw toSpreedlyApiError.call(this, error);
+      }
+
+      // A 429 was never processed, anything else may have reached the gateway
+      if (method === 'POST' && statusCode !== 429 && isMoneyMovingEndpoint(endpoint)) {
+        if (RECEIVER_DELIVER_ENDPOINT.test(endpoint)) {
+          throw toSpreedlyApiError.call(this, error);
+        }
+        let existing: IDataObject | undefined;
+        try {
+          existing = await findExistingTransaction.call(this, endpoint, body, startedAt);
+        } catch {
+          throw toSpreedlyApiError.call(this, error);
+        }
+        if (existing) {
+          return { transaction: existing };
+        }
+      }
+
+      await sleep(computeRetryDelay(attempt, error.response?.headers?.['retry-after']));
+    }
+  }
+}
+
+/**
+ * Reads the retry policy from the node's Request Options, if the context has them
+ */
+function getRetryPolicy(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+): IRetryPolicy {
+  const requestOptions =
+    'getInputData' in this
+      ? ((this.getNodeParameter('requestOptions', 0, {}) as IDataObject) ?? {})
+      : {};
+
+  return {
+    maxAttempts: Math.max((requestOptions.maxAttempts as number) ?? DEFAULT_MAX_ATTEMPTS, 1),
+    retryableStatusCodes: parseStatusCodes(
+      (requestOptions.retryableStatusCodes as string) ?? DEFAULT_RETRYABLE_STATUS_CODES,
+    ),
+  };
+}
+
+/**
+ * Parses a comma-separated list of HTTP status codes
+ */
+export function parseStatusCodes(value: string): number[] {
+  return value
+    .split(',')
+    .map((code) => parseInt(code.trim(), 10))
+    .filter((code) => !isNaN(code));
+}
+
+/**
+ * Reads the HTTP status code from a request error
+ */
+function getResponseStatus(error: any): number | undefined {
+  return error.response?.status ?? error.response?.statusCode;
+}
+
+/**
+ * Reads the response body from a request error
+ */
+function getResponseBody(error: any): any {
+  return error.response?.data ?? error.response?.body;
+}
+
+/**
+ * Checks whether a failed request is worth retrying under the given policy
+ */
+export function isRetryableError(error: any, policy: IRetryPolicy): boolean {
+  const statusCode = getResponseStatus(error);
+  if (statusCode === undefined) {
+    return RETRYABLE_NETWORK_ERRORS.includes(error.code);
+  }
+
+  // A response carrying a transaction means the gateway already processed it
+  if (getResponseBody(error)?.transaction) {
+    return false;
+  }
+  return policy.retryableStatusCodes.includes(statusCode);
+}
+
+/**
+ * Checks whether an endpoint moves money and therefore is not idempotent
+ */
+export function isMoneyMovingEndpoint(endpoint: string): boolean {
+  return (
+    GATEWAY_MONEY_ENDPOINT.test(endpoint) ||
+    TRANSACTION_MONEY_ENDPOINT.test(endpoint) ||
+    RECEIVER_DELIVER_ENDPOINT.test(endpoint)
+  );
+}
+
+/**
+ * Computes the delay before the next attempt: Retry-After when given,
+ * otherwise exponential backoff with jitter
+ */
+export function computeRetryDelay(attempt: number, retryAfter?: string): number {
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), RETRY_MAX_DELAY_MS);
+    }
+  }
+
+  const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Looks for a transaction created by a money-moving request whose response was lost.
+ * Only transactions created since the first attempt and carrying the request's marker match:
+ * the metadata nonce for gateway actions, the referenced transaction for the others.
+ */
+async function findExistingTransaction(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  endpoint: string,
+  body: IDataObject,
+  startedAt: number,
+): Promise<IDataObject | undefined> {
+  const gatewayMatch = GATEWAY_MONEY_ENDPOINT.exec(endpoint);
+  const transactionMatch = TRANSACTION_MONEY_ENDPOINT.exec(endpoint);
+  if (!gatewayMatch && !transactionMatch) {
+    throw new NodeOperationError(this.getNode(), `Cannot reconcile a failed ${endpoint} request`);
+  }
+
+  // 3DS Complete finalises the referenced transaction instead of creating one
+  if (transactionMatch?.[2] === 'complete') {
+    const response = await spreedlyApiRequest.call(
+      this,
+      'GET',
+      `/transactions/${transactionMatch[1]}.json`,
+    );
+    const transaction = (response.transaction as IDataObject) || {};
+    return transaction.state === 'pending' ? undefined : transaction;
+  }
+
+  const action = (gatewayMatch || transactionMatch)![2];
+  const request = (body.transaction as IDataObject) || {};
+  const nonce = ((request.metadata as IDataObject) || {})[RECONCILIATION_METADATA_KEY];
+  if (gatewayMatch && !nonce) {
+    throw new NodeOperationError(
+      this.getNode(),
+      'Cannot tell whether the failed request created a transaction',
+    );
+  }
+
+  const listEndpoint = gatewayMatch
+    ? `/gateways/${gatewayMatch[1]}/transactions.json`
+    : '/transactions.json';
+  const response = await spreedlyApiRequest.call(this, 'GET', listEndpoint, {}, {
+    order: 'desc',
+    count: MAX_PAGE_SIZE,
+  });
+
+  // created_at has second precision, so compare against the second the first attempt started in
+  const since = Math.floor(startedAt / 1000) * 1000;
+  return ((response.transactions as IDataObject[]) || []).find((transaction) => {
+    if (transaction.transaction_type !== ACTION_TRANSACTION_TYPES[action]) {
+      return false;
+    }
+    if (!(Date.parse(transaction.created_at as string) >= since)) {
+      return false;
+    }
+    if (transactionMatch) {
+      return transaction.reference_token === transactionMatch[1];
+    }
+    return ((transaction.metadata as IDataObject) || {})[RECONCILIATION_METADATA_KEY] === nonce;
+  });
+}
+
+/**
+ * Tags a gateway money-moving request with a nonce so a lost response can be reconciled
+ */
+function withReconciliationMarker(endpoint: string, body: IDataObject): IDataObject {
+  const request = body.transaction as IDataObject | undefined;
+  if (!GATEWAY_MONEY_ENDPOINT.test(endpoint) || !request) {
+    return body;
+  }
+  const metadata = (request.metadata ?? {}) as IDataObject;
+  if (typeof metadata !== 'object' || metadata[RECONCILIATION_METADATA_KEY]) {
+    return body;
+  }
+  return {
+    ...body,
+    transaction: {
+      ...request,
+      metadata: { ...metadata, [RECONCILIATION_METADATA_KEY]: randomUUID() },
+    },
+  };
+}
+
+/**
+ * Converts a request error into a SpreedlyApiError with every Spreedly error entry
+ */
+function toSpreedlyApiError(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  error: any,
+): SpreedlyApiError {
+  return new SpreedlyApiError(this.getNode(), error, getResponseStatus(error), getResponseBody(error));
+}
+
+/**
+ * Tests a Spreedly credential by listing the environment's gateways
+ */
+export async function spreedlyApiCredentialTest(
+  this: ICredentialTestFunctions,
+  credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+  const credentials = credential.data as ICredentialDataDecryptedObject;
+  const baseUrl = getBaseUrl(credentials);
+
+  let response: any;
   try {
-    const response = await this.helpers.httpRequest(options);
-    return response;
+    response = await this.helpers.request({
+      method: 'GET',
+      uri: `${baseUrl}/gateways.json`,
+      auth: {
+        user: credentials.environmentKey as string,
+        pass: credentials.accessSecret as string,
+      },
+      json: true,
+    });
   } catch (error: any) {
-    if (error.response) {
-      const errorMessage = error.response.body?.errors?.[0]?.message 
-        || error.response.body?.message 
-        || error.message;
-      throw new NodeApiError(this.getNode(), error, {
-        message: `Spreedly API Error: ${errorMessage}`,
-        httpCode: error.response.statusCode?.toString(),
-      });
+    const statusCode = error.statusCode ?? error.response?.statusCode;
+
+    if (statusCode === 401 || statusCode === 403) {
+      return {
+        status: 'Error',
+        message: 'Authentication failed: check the Environment Key and Access Secret',
+      };
     }
-    throw error;
+    if (statusCode === 404) {
+      return {
+        status: 'Error',
+        message: `Base URL ${baseUrl} does not look like a Spreedly API endpoint (HTTP 404)`,
+      };
+    }
+    if (statusCode) {
+      return {
+        status: 'Error',
+        message: `Spreedly API at ${baseUrl} responded with HTTP ${statusCode}`,
+      };
+    }
+    return {
+      status: 'Error',
+      message: `Could not reach Base URL ${baseUrl}: ${error.message}`,
+    };
+  }
+
+  if (!response || typeof response !== 'object' || !Array.isArray(response.gateways)) {
+    return {
+      status: 'Error',
+      message: `Base URL ${baseUrl} responded, but not with a Spreedly API response`,
+    };
   }
+
+  return {
+    status: 'OK',
+    message: 'Connection successful',
+  };
 }
 
 /**
- * Makes an authenticated request with pagination support
+ * Builds pagination settings from a list operation's options collection
+ */
+export function toPaginationOptions(listOptions: IDataObject, limit?: number): IPaginationOptions {
+  return {
+    ...(listOptions.pageSize !== undefined && { pageSize: listOptions.pageSize as number }),
+    ...(listOptions.order !== undefined && { order: listOptions.order as 'asc' | 'desc' }),
+    ...(listOptions.maxPages !== undefined && { maxPages: listOptions.maxPages as number }),
+    ...(limit !== undefined && { limit }),
+  };
+}
+
+/**
+ * Makes an authenticated request with since_token cursor pagination.
+ * Stops on an empty page, a repeated cursor, the limit, or the page/item safety caps.
  */
 export async function spreedlyApiRequestAllItems(
-  this: IExecuteFunctions | ILoadOptionsFunctions,
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
   method: IHttpRequestMethods,
   endpoint: string,
   propertyName: string,
   body: IDataObject = {},
   query: IDataObject = {},
+  pagination: IPaginationOptions = {},
 ): Promise<any[]> {
   const returnData: any[] = [];
-  let responseData;
+  const pageSize = Math.min(Math.max(pagination.pageSize ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const maxPages = pagination.maxPages ?? DEFAULT_MAX_PAGES;
+  const maxItems = Math.min(pagination.limit ?? Infinity, pagination.maxItems ?? DEFAULT_MAX_ITEMS);
+  const seenTokens = new Set<string>();
   let sinceToken: string | undefined;
+  let pages = 0;
+  let exhausted = false;
 
-  do {
-    const paginatedQuery = { ...query };
+  while (pages < maxPages && returnData.length < maxItems) {
+    const paginatedQuery: IDataObject = {
+      ...query,
+      // Filtered pages may yield fewer matches, so only shrink the last page when unfiltered
+      count: pagination.filter ? pageSize : Math.min(pageSize, maxItems - returnData.length),
+    };
+    if (pagination.order) {
+      paginatedQuery.order = pagination.order;
+    }
     if (sinceToken) {
       paginatedQuery.since_token = sinceToken;
     }
 
-    responseData = await spreedlyApiRequest.call(this, method, endpoint, body, paginatedQuery);
+    const responseData = await spreedlyApiRequest.call(
+      this,
+      method,
+      endpoint,
+      body,
+      paginatedQuery,
+    );
+    pages++;
 
-    const items = responseData[propertyName];
-    if (items && Array.isArray(items)) {
-      returnData.push(...items);
+    const items = responseData?.[propertyName];
+    if (!Array.isArray(items) || items.length === 0) {
+      exhausted = true;
+      break;
+    }
 
-      // Get the token from the last item for pagination
-      if (items.length > 0) {
-        sinceToken = items[items.length - 1].token;
-      }
+    const untilIndex = pagination.until ? items.findIndex(pagination.until) : -1;
+    const pageItems = untilIndex === -1 ? items : items.slice(0, untilIndex);
+    returnData.push(...(pagination.filter ? pageItems.filter(pagination.filter) : pageItems));
+    if (untilIndex !== -1) {
+      exhausted = true;
+      break;
     }
 
-    // Check if there are more pages
-    // Spreedly returns fewer items than requested when at the end
-  } while (responseData[propertyName]?.length === 20);
+    // Get the token from the last item for pagination
+    const lastToken = items[items.length - 1].token as string | undefined;
+    if (!lastToken || seenTokens.has(lastToken)) {
+      exhausted = true;
+      break;
+    }
+    seenTokens.add(lastToken);
+    sinceToken = lastToken;
+  }
 
-  return returnData;
+  if (!exhausted && pagination.onCapReached) {
+    if (returnData.length < maxItems) {
+      pagination.onCapReached('maxPages');
+    } else if (maxItems < (pagination.limit ?? Infinity)) {
+      pagination.onCapReached('maxItems');
+    }
+  }
+
+  return returnData.slice(0, maxItems);
 }
 
 /**
@@ -144,6 +730,21 @@ export function buildCreditCardPaymentMethod(data: IDataObject): IDataObject {
   };
 }
 
+/**
+ * Builds the changed credit card fields for a payment method update.
+ * The card number and CVV cannot be changed and are never sent.
+ */
+export function buildPaymentMethodUpdate(data: IDataObject): IDataObject {
+  const fields = buildCreditCardPaymentMethod(data).credit_card as IDataObject;
+  const update: IDataObject = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (key !== 'number' && key !== 'verification_value' && value !== undefined && value !== '') {
+      update[key] = value;
+    }
+  }
+  return update;
+}
+
 /**
  * Builds a bank account payment method object for Spreedly API
  */
@@ -160,3 +761,29 @@ export function buildBankAccountPaymentMethod(data: IDataObject): IDataObject {
     },
   };
 }
+
+/**
+ * Builds an Apple Pay or Google Pay payment method object for Spreedly API
+ */
+export function buildWalletPaymentMethod(walletType: string, data: IDataObject): IDataObject {
+  return {
+    [walletType]: {
+      payment_data: data.paymentData,
+      ...(data.testCardNumber && { test_card_number: data.testCardNumber }),
+    },
+    ...(data.certificateToken && { certificate_token: data.certificateToken }),
+    ...(data.email && { email: data.email }),
+  };
+}
+
+/**
+ * Builds a third-party token payment method object for Spreedly API
+ */
+export function buildThirdPartyTokenPaymentMethod(data: IDataObject): IDataObject {
+  return {
+    payment_method_type: 'third_party_token',
+    reference: data.reference,
+    gateway_type: data.gatewayType,
+    ...(data.email && { email: data.email }),
+  };
+}
@@ -5,8 +5,24 @@
  * See LICENSE file for details.
  */
 
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
 import type { IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { LICENSING_NOTICE } from '../constants';
+import { parseStringPromise } from 'xml2js';
+import {
+  CARD_CVV_LENGTHS,
+  CARD_TYPES,
+  EVENT_STATE_ORDER,
+  LICENSING_NOTICE,
+  REDACTED_DROP_KEYS,
+  REDACTED_HEADER_KEYS,
+  REDACTED_MASK_KEYS,
+  REDACTION_IDENTIFIER_KEY_PATTERN,
+  SUCCESS_STATES,
+  TRANSACTION_STATES,
+  WEBHOOK_BATCH_KEYS,
+  WEBHOOK_SIGNATURE_ALGORITHMS,
+} from '../constants';
+import type { IGatewayAuthMode, IGatewayCatalogEntry } from '../constants';
 
 let licensingNoticeDisplayed = false;
 
@@ -40,6 +56,151 @@ export function prepareOutputData(items: IDataObject[]): INodeExecutionData[] {
   }));
 }
 
+/**
+ * Converts a snake_case value to a display name (e.g. gateway_processing_failed)
+ */
+export function toDisplayName(value: string): string {
+  return value
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Builds the list query for Transaction → List filters
+ */
+export function buildTransactionListQuery(filters: IDataObject): IDataObject {
+  const query: IDataObject = {};
+  const states = (filters.states as string[]) || [];
+  const types = (filters.transactionTypes as string[]) || [];
+
+  if (states.length > 0) {
+    query.state = states.join(',');
+  }
+  if (types.length > 0) {
+    query.transaction_type = types.join(',');
+  }
+  if (filters.orderId) {
+    query.order_id = filters.orderId;
+  }
+  if (filters.createdAfter) {
+    query.created_at_gte = filters.createdAfter;
+  }
+  if (filters.createdBefore) {
+    query.created_at_lte = filters.createdBefore;
+  }
+  return query;
+}
+
+/**
+ * Checks a transaction against Transaction → List filters.
+ * Applied client-side as well, so results stay correct if the API ignores a filter.
+ */
+export function matchesTransactionFilters(transaction: IDataObject, filters: IDataObject): boolean {
+  const states = (filters.states as string[]) || [];
+  const types = (filters.transactionTypes as string[]) || [];
+  const createdAt = Date.parse(transaction.created_at as string);
+
+  if (states.length > 0 && !states.includes(transaction.state as string)) {
+    return false;
+  }
+  if (types.length > 0 && !types.includes(transaction.transaction_type as string)) {
+    return false;
+  }
+  if (filters.orderId && transaction.order_id !== filters.orderId) {
+    return false;
+  }
+  if (filters.createdAfter && !(createdAt >= Date.parse(filters.createdAfter as string))) {
+    return false;
+  }
+  if (filters.createdBefore && !(createdAt <= Date.parse(filters.createdBefore as string))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Normalizes a transaction's result and gateway response into a flat outcome.
+ * status is succeeded, pending, failed, or unknown (gateway result unknown or unrecognised state).
+ */
+export function normalizeTransactionOutcome(transaction: IDataObject): IDataObject {
+  const state = transaction.state as string;
+  const response = (transaction.response as IDataObject) || {};
+
+  let status = 'failed';
+  if (
+    transaction.succeeded === true ||
+    (transaction.succeeded === undefined && SUCCESS_STATES.includes(state))
+  ) {
+    status = 'succeeded';
+  } else if (state === 'pending' || state === 'processing') {
+    status = 'pending';
+  } else if (state === 'gateway_processing_result_unknown' || !TRANSACTION_STATES.includes(state)) {
+    status = 'unknown';
+  }
+
+  return {
+    status,
+    succeeded: status === 'succeeded',
+    state,
+    message: (response.message as string) || (transaction.message as string) || null,
+    errorCode: (response.error_code as string) || null,
+    errorDetail: (response.error_detail as string) || null,
+    avsCode: (response.avs_code as string) || null,
+    avsMessage: (response.avs_message as string) || null,
+    cvvCode: (response.cvv_code as string) || null,
+    cvvMessage: (response.cvv_message as string) || null,
+  };
+}
+
+/**
+ * Checks whether a normalized outcome belongs on the failed path
+ */
+export function isFailedOutcome(outcome: IDataObject): boolean {
+  return outcome.status === 'failed' || outcome.status === 'unknown';
+}
+
+/**
+ * Converts fixedCollection metadata pairs into a Spreedly metadata object
+ */
+export function metadataPairsToObject(pairs: IDataObject[] = []): IDataObject {
+  const metadata: IDataObject = {};
+  for (const pair of pairs) {
+    const key = ((pair.key as string) || '').trim();
+    if (key) {
+      metadata[key] = pair.value;
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Keeps only the listed metadata keys, or flattens metadata into metadata_<key> fields
+ */
+export function shapeMetadata(data: IDataObject, mode: string, keys: string[] = []): IDataObject {
+  const shaped: IDataObject = { ...data };
+  const paymentMethod = data.payment_method as IDataObject | undefined;
+  if (paymentMethod && typeof paymentMethod === 'object' && !Array.isArray(paymentMethod)) {
+    shaped.payment_method = shapeMetadata(paymentMethod, mode, keys);
+  }
+
+  const metadata = data.metadata as IDataObject | undefined;
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return shaped;
+  }
+
+  const selected = Object.keys(metadata).filter((key) => keys.length === 0 || keys.includes(key));
+  if (mode === 'flatten') {
+    delete shaped.metadata;
+    for (const key of selected) {
+      shaped[`metadata_${key}`] = metadata[key];
+    }
+  } else if (mode === 'filter') {
+    shaped.metadata = Object.fromEntries(selected.map((key) => [key, metadata[key]]));
+  }
+  return shaped;
+}
+
 /**
  * Validates a Spreedly token format
  */
@@ -104,10 +265,65 @@ export function isValidExpirationDate(month: number, year: number): boolean {
 }
 
 /**
- * Validates CVV format
+ * Validates CVV format, using the brand's CVV length when known
  */
-export function isValidCvv(cvv: string): boolean {
-  return /^\d{3,4}$/.test(cvv);
+export function isValidCvv(cvv: string, brand?: string): boolean {
+  const length = brand ? CARD_CVV_LENGTHS[brand] : undefined;
+  return length ? new RegExp(`^\\d{${length}}$`).test(cvv) : /^\d{3,4}$/.test(cvv);
+}
+
+/**
+ * Detects the card brand from the BIN, returning a CARD_TYPES value
+ */
+export function detectCardBrand(cardNumber: string): string | undefined {
+  const digits = cardNumber.replace(/\D/g, '');
+  const bin = parseInt(digits.slice(0, 4), 10);
+
+  if (/^3[47]/.test(digits)) return 'american_express';
+  if (/^3(0[0-5]|[68])/.test(digits)) return 'diners_club';
+  if (/^35(2[89]|[3-8])/.test(digits)) return 'jcb';
+  if (/^(5018|5020|5038|5893|6304|6759|676[1-3])/.test(digits)) return 'maestro';
+  if (/^5[1-5]/.test(digits) || (bin >= 2221 && bin <= 2720)) return 'master';
+  if (/^(6011|64[4-9]|65)/.test(digits)) return 'discover';
+  if (/^4/.test(digits)) return 'visa';
+  return undefined;
+}
+
+/**
+ * Runs the pre-flight checks for a card before tokenization
+ */
+export function validateCreditCard(data: IDataObject): IDataObject {
+  const cardNumber = String(data.cardNumber ?? '');
+  const brand = detectCardBrand(cardNumber);
+  const errors: IDataObject[] = [];
+
+  if (!isValidCreditCardNumber(cardNumber)) {
+    errors.push({
+      field: 'cardNumber',
+      message: 'Card number fails the Luhn check or has an invalid length',
+    });
+  }
+  if (!isValidExpirationDate(Number(data.expirationMonth), Number(data.expirationYear))) {
+    errors.push({
+      field: 'expiration',
+      message: 'Card is expired or the expiration month is invalid',
+    });
+  }
+  if (data.cvv && !isValidCvv(String(data.cvv), brand)) {
+    const brandName = CARD_TYPES.find((type) => type.value === brand)?.name;
+    errors.push({
+      field: 'cvv',
+      message: brand
+        ? `CVV must be ${CARD_CVV_LENGTHS[brand]} digits for ${brandName} cards`
+        : 'CVV must be 3 or 4 digits',
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    brand: brand ?? null,
+    errors,
+  };
 }
 
 /**
@@ -121,6 +337,257 @@ export function maskCardNumber(cardNumber: string): string {
   return `****${digits.slice(-4)}`;
 }
 
+/**
+ * Masks PAN-like digit runs, CVVs, bank numbers and Authorization headers in text
+ */
+export function redactSensitiveText(text: string): string {
+  return text
+    .replace(/\b\d(?:[ -]?\d){12,18}\b/g, (match) => {
+      const digits = match.replace(/\D/g, '');
+      return /^[2-6]/.test(digits) && isValidCreditCardNumber(digits)
+        ? maskCardNumber(digits)
+        : match;
+    })
+    .replace(/((?:proxy-)?authorization"?\s*[:=]\s*"?)[^"\r\n]+/gi, '$1[REDACTED]')
+    .replace(/(verification_value|cvv2?|cvc)(\W{1,4})\d{3,4}/gi, '$1$2[REDACTED]')
+    .replace(
+      /((?:account|routing)_?number)(\W{1,4})(\d{4,})/gi,
+      (_match, key: string, separator: string, digits: string) =>
+        `${key}${separator}${maskCardNumber(digits)}`,
+    );
+}
+
+/**
+ * Recursively redacts sensitive values from node output
+ */
+export function redactSensitiveData(value: any): any {
+  if (typeof value === 'string') {
+    return redactSensitiveText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactSensitiveData(entry));
+  }
+  if (!value || typeof value !== 'object' || Buffer.isBuffer(value)) {
+    return value;
+  }
+
+  const redacted: IDataObject = {};
+  for (const [key, entry] of Object.entries(value)) {
+    // Form-encoded keys such as card[number] are matched on their last segment
+    const lastSegment = key.replace(/^.*\[([^\]]+)\]$/, '$1');
+    const normalizedKey = lastSegment.toLowerCase();
+    if (REDACTED_DROP_KEYS.includes(normalizedKey)) {
+      continue;
+    }
+    if (REDACTED_HEADER_KEYS.includes(normalizedKey) && entry) {
+      redacted[key] = '[REDACTED]';
+    } else if (
+      REDACTED_MASK_KEYS.includes(normalizedKey) &&
+      (typeof entry === 'string' || typeof entry === 'number') &&
+      /^\d[\d -]{3,}$/.test(String(entry))
+    ) {
+      redacted[key] = maskCardNumber(String(entry));
+    } else if (
+      REDACTION_IDENTIFIER_KEY_PATTERN.test(lastSegment) &&
+      (typeof entry === 'string' || typeof entry === 'number')
+    ) {
+      // Network transaction IDs and order numbers can pass the Luhn check like a card number
+      redacted[key] = entry;
+    } else {
+      redacted[key] = redactSensitiveData(entry);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Unescapes a Ruby-inspected string from an ActiveMerchant wiredump line
+ */
+function unescapeWireString(value: string): string {
+  return value.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+    if (escape.length > 1) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    switch (escape) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      case 'e':
+        return '\x1b';
+      default:
+        return escape;
+    }
+  });
+}
+
+/**
+ * Splits a raw HTTP message into its start line, headers and body
+ */
+function splitHttpMessage(text: string): { startLine: string; headers: IDataObject; body: string } {
+  const separator = /\r?\n\r?\n/.exec(text);
+  const head = separator ? text.slice(0, separator.index) : text;
+  const body = separator ? text.slice(separator.index + separator[0].length) : '';
+  const [startLine, ...headerLines] = head.split(/\r?\n/);
+
+  const headers: IDataObject = {};
+  for (const line of headerLines) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim();
+      const value = line.slice(colon + 1).trim();
+      headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+    }
+  }
+  return { startLine, headers, body };
+}
+
+/**
+ * Decodes a transcript body as JSON, XML or form data based on its content type or shape
+ */
+export async function decodeTranscriptBody(
+  body: string,
+  contentType = '',
+): Promise<{ format: string; body: unknown }> {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return { format: 'empty', body: null };
+  }
+
+  if (/json/i.test(contentType) || /^[[{]/.test(trimmed)) {
+    try {
+      return { format: 'json', body: JSON.parse(trimmed) };
+    } catch {
+      // Fall through to the other formats
+    }
+  }
+  if (/xml/i.test(contentType) || trimmed.startsWith('<')) {
+    try {
+      return {
+        format: 'xml',
+        body: await parseStringPromise(trimmed, { explicitArray: false, explicitRoot: true }),
+      };
+    } catch {
+      // Fall through to the other formats
+    }
+  }
+  if (/x-www-form-urlencoded/i.test(contentType) || /^[^\s=&]+=[^\s]*$/.test(trimmed)) {
+    return { format: 'form', body: Object.fromEntries(new URLSearchParams(trimmed)) };
+  }
+  return { format: 'text', body: trimmed };
+}
+
+/**
+ * Parses a Spreedly transcript (ActiveMerchant wiredump) into request/response exchanges
+ */
+export async function parseTranscript(transcript: string): Promise<IDataObject[]> {
+  const wires: Array<{ host?: string; port?: string; request: string; response: string }> = [];
+  let current: (typeof wires)[number] | undefined;
+  let host: string | undefined;
+  let port: string | undefined;
+
+  for (const line of transcript.split(/\r?\n/)) {
+    const connection = /^opening connection to ([^:\s]+)(?::(\d+))?/.exec(line);
+    if (connection) {
+      [, host, port] = connection;
+      continue;
+    }
+
+    const wire = /^(<-|->) "(.*)"\s*$/.exec(line);
+    if (!wire) {
+      continue;
+    }
+    // A request chunk after a response starts the next exchange
+    if (!current || (wire[1] === '<-' && current.response)) {
+      current = { host, port, request: '', response: '' };
+      wires.push(current);
+    }
+    if (wire[1] === '<-') {
+      current.request += unescapeWireString(wire[2]);
+    } else {
+      current.response += unescapeWireString(wire[2]);
+    }
+  }
+
+  const exchanges: IDataObject[] = [];
+  for (const exchange of wires) {
+    const request = splitHttpMessage(exchange.request);
+    const requestLine = /^([A-Z]+) (\S+)(?: HTTP\/[\d.]+)?$/.exec(request.startLine);
+    const requestHeaders = requestLine ? request.headers : {};
+    const requestBody = requestLine ? request.body : exchange.request;
+    const requestHost = (requestHeaders.Host as string) || exchange.host;
+    const path = requestLine?.[2];
+    const scheme = exchange.port === '80' ? 'http' : 'https';
+    const url =
+      path && !/^https?:/.test(path) && requestHost ? `${scheme}://${requestHost}${path}` : path;
+    const decodedRequest = await decodeTranscriptBody(
+      requestBody,
+      requestHeaders['Content-Type'] as string,
+    );
+
+    const response = splitHttpMessage(exchange.response);
+    const statusLine = /^HTTP\/[\d.]+ (\d{3})\s*(.*)$/.exec(response.startLine);
+    const responseHeaders = statusLine ? response.headers : {};
+    const decodedResponse = await decodeTranscriptBody(
+      statusLine ? response.body : exchange.response,
+      responseHeaders['Content-Type'] as string,
+    );
+
+    exchanges.push({
+      request: {
+        method: requestLine?.[1] ?? null,
+        url: url ?? null,
+        headers: requestHeaders,
+        bodyFormat: decodedRequest.format,
+        body: decodedRequest.body as IDataObject,
+      },
+      response: {
+        statusCode: statusLine ? parseInt(statusLine[1], 10) : null,
+        statusMessage: statusLine?.[2] || null,
+        headers: responseHeaders,
+        bodyFormat: decodedResponse.format,
+        body: decodedResponse.body as IDataObject,
+      },
+    });
+  }
+  return exchanges;
+}
+
+/**
+ * Finds the selected auth mode of a gateway type, defaulting to its first mode
+ */
+export function findGatewayAuthMode(
+  catalog: IGatewayCatalogEntry[],
+  gatewayType: string,
+  authModeType?: string,
+): IGatewayAuthMode | undefined {
+  const gateway = catalog.find((entry) => entry.gateway_type === gatewayType);
+  if (!gateway) {
+    return undefined;
+  }
+  return (
+    gateway.auth_modes.find((authMode) => authMode.auth_mode_type === authModeType) ??
+    gateway.auth_modes[0]
+  );
+}
+
+/**
+ * Lists the labels of the auth mode credentials that have no value
+ */
+export function getMissingGatewayCredentials(
+  authMode: IGatewayAuthMode,
+  credentials: IDataObject,
+): string[] {
+  return authMode.credentials
+    .filter((credential) => {
+      const value = credentials[credential.name];
+      return value === undefined || value === null || value === '';
+    })
+    .map((credential) => credential.label);
+}
+
 /**
  * Formats error messages for user display
  */
@@ -134,6 +601,47 @@ export function formatErrorMessage(error: any): string {
   return 'An unknown error occurred';
 }
 
+/**
+ * Reads the text of a parsed XML element, which carries its attributes under `$` and its text
+ * under `_`. Elements with only attributes, such as `nil="true"`, read as empty.
+ */
+export function getXmlText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    const text = (value as IDataObject)._;
+    return text === undefined || text === null ? '' : String(text);
+  }
+  return String(value);
+}
+
+/**
+ * Verifies the `signed` block Spreedly adds to each callback record. The signature is a hex
+ * HMAC, keyed with the environment signing secret, of the values of the listed fields joined
+ * with `|`, using the block's algorithm.
+ */
+export function verifySignedRecord(record: IDataObject, secret: string): boolean {
+  const signed = record.signed as IDataObject | undefined;
+  if (!secret || !signed || typeof signed !== 'object') {
+    return false;
+  }
+
+  const signature = getXmlText(signed.signature).trim().toLowerCase();
+  const fields = getXmlText(signed.fields).split(/\s+/).filter(Boolean);
+  const algorithm = (getXmlText(signed.algorithm).trim() || 'sha1').toLowerCase();
+  if (!signature || fields.length === 0 || !WEBHOOK_SIGNATURE_ALGORITHMS.includes(algorithm)) {
+    return false;
+  }
+
+  const signatureData = fields.map((field) => getXmlText(record[field])).join('|');
+  const expected = createHmac(algorithm, secret).update(signatureData).digest('hex');
+  if (signature.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
 /**
  * Parses webhook payload to extract relevant data
  */
@@ -166,6 +674,155 @@ export function parseWebhookPayload(body: IDataObject): IDataObject {
   return eventData;
 }
 
+/**
+ * Splits a webhook payload into one parsed event per record.
+ * Batched callbacks (`transactions: [...]`, or `transactions.transaction` from XML)
+ * yield one event each, tagged with the batch ID and the record's position in the batch.
+ */
+export function parseWebhookPayloads(body: IDataObject): IDataObject[] {
+  const records: Array<{ key: string; record: IDataObject }> = [];
+  for (const [batchKey, recordKey] of Object.entries(WEBHOOK_BATCH_KEYS)) {
+    const batch = body[batchKey];
+    if (!batch || typeof batch !== 'object') {
+      continue;
+    }
+    const entries = Array.isArray(batch) ? batch : (batch as IDataObject)[recordKey] ?? [];
+    for (const record of Array.isArray(entries) ? entries : [entries]) {
+      records.push({ key: recordKey, record: record as IDataObject });
+    }
+  }
+
+  if (records.length === 0) {
+    return [parseWebhookPayload(body)];
+  }
+
+  const batchId = (body.batch_id as string) ?? (body.batchId as string) ?? randomUUID();
+  return records.map(({ key, record }, index) => ({
+    ...parseWebhookPayload({ [key]: record }),
+    batchId,
+    batchIndex: index,
+    batchSize: records.length,
+  }));
+}
+
+/**
+ * Derives the trigger event name from a record type and its state
+ */
+export function getEventType(type: string, data: IDataObject = {}): string {
+  if (type === 'transaction') {
+    if (data.succeeded === true) {
+      return 'transaction.succeeded';
+    }
+    if (data.succeeded === false) {
+      return 'transaction.failed';
+    }
+    if (data.state === 'pending') {
+      return 'transaction.pending';
+    }
+  } else if (type === 'payment_method') {
+    if (data.storage_state === 'retained') {
+      return 'payment_method.retained';
+    }
+    if (data.storage_state === 'redacted') {
+      return 'payment_method.redacted';
+    }
+    if (data.storage_state === 'cached') {
+      return 'payment_method.added';
+    }
+    return 'payment_method.updated';
+  } else if (type === 'gateway') {
+    if (data.state === 'retained') {
+      return 'gateway.retained';
+    }
+    if (data.state === 'redacted') {
+      return 'gateway.redacted';
+    }
+    return 'gateway.added';
+  } else if (type === 'receiver') {
+    return data.state === 'redacted' ? 'receiver.redacted' : 'receiver.added';
+  } else if (type === 'certificate') {
+    return 'certificate.added';
+  }
+  return 'unknown';
+}
+
+/**
+ * Identity of a delivered record: its type and token, plus the version that changes with it
+ */
+export interface IEventIdentity {
+  key: string;
+  version: string;
+  updatedAt?: number;
+  stateRank: number;
+}
+
+/**
+ * Identifies a delivered record by token and by its updated_at and state, if it has a token
+ */
+export function getEventIdentity(type: string, data: IDataObject = {}): IEventIdentity | undefined {
+  if (!data.token) {
+    return undefined;
+  }
+  const state = (data.state ?? data.storage_state ?? '') as string;
+  const updatedAt = Date.parse(data.updated_at as string);
+  return {
+    key: `${type}:${data.token}`,
+    version: `${data.updated_at ?? ''}|${state}`,
+    updatedAt: isNaN(updatedAt) ? undefined : updatedAt,
+    stateRank: EVENT_STATE_ORDER[state] ?? 1,
+  };
+}
+
+/**
+ * Checks a delivery against the processed events kept in static data and records it when new.
+ * Entries older than the window are pruned first. A delivery is stale when the same record
+ * was already processed with a later updated_at, or a later state when timestamps are missing.
+ * With record set to false a new delivery is passed without being remembered.
+ */
+export function checkEventDelivery(
+  processedEvents: IDataObject,
+  identity: IEventIdentity,
+  options: {
+    now: number;
+    windowMs: number;
+    deduplicate: boolean;
+    dropStale: boolean;
+    record?: boolean;
+  },
+): 'new' | 'duplicate' | 'stale' {
+  for (const [key, entry] of Object.entries(processedEvents)) {
+    if (((entry as IDataObject).seenAt as number) < options.now - options.windowMs) {
+      delete processedEvents[key];
+    }
+  }
+
+  const previous = processedEvents[identity.key] as IDataObject | undefined;
+  if (previous && options.deduplicate && previous.version === identity.version) {
+    return 'duplicate';
+  }
+  if (previous && options.dropStale) {
+    const previousUpdatedAt = previous.updatedAt as number | undefined;
+    const isStale =
+      identity.updatedAt !== undefined && previousUpdatedAt !== undefined
+        ? identity.updatedAt < previousUpdatedAt
+        : identity.stateRank < (previous.stateRank as number);
+    if (isStale) {
+      return 'stale';
+    }
+  }
+
+  if (options.record === false) {
+    return 'new';
+  }
+  processedEvents[identity.key] = {
+    version: identity.version,
+    ...(identity.updatedAt !== undefined && { updatedAt: identity.updatedAt }),
+    stateRank: identity.stateRank,
+    seenAt: options.now,
+  };
+  return 'new';
+}
+
 /**
  * Converts snake_case to camelCase
  */
@@ -0,0 +1,21 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Builds an execute context that reads node parameters from a plain object
+ */
+export function createContext(parameters: Record<string, any>, httpRequest: jest.Mock) {
+  return {
+    getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1' }),
+    getInputData: jest.fn().mockReturnValue([{ json: {} }]),
+    getNodeParameter: jest.fn((name: string, _i: number, fallback?: any) =>
+      name in parameters ? parameters[name] : fallback,
+    ),
+    getNode: jest.fn().mockReturnValue({ name: 'Spreedly' }),
+    helpers: { httpRequest },
+  };
+}
@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  parseRoutingRules,
+  matchesRoutingRule,
+  getBinCountry,
+  routeGateway,
+} from '../../nodes/Spreedly/routing';
+import { transactionOperations } from '../../nodes/Spreedly/actions/transaction';
+import { createContext } from './helpers';
+
+const routingRules = {
+  ruleValues: [
+    { name: 'EUR to Adyen', gatewayToken: 'adyen_gw', currencies: ['EUR'] },
+    {
+      name: 'Large Amex',
+      gatewayToken: 'amex_gw',
+      cardTypes: ['american_express'],
+      minAmount: 500,
+    },
+    { gatewayToken: 'us_gw', binCountries: 'us, ca' },
+  ],
+};
+
+describe('Gateway Routing', () => {
+  describe('parseRoutingRules', () => {
+    it('should normalize rules and skip ones without a gateway', () => {
+      const rules = parseRoutingRules([
+        ...routingRules.ruleValues,
+        { name: 'Incomplete', currencies: ['USD'] },
+      ]);
+
+      expect(rules).toHaveLength(3);
+      expect(rules[1]).toMatchObject({ minAmount: 500, maxAmount: undefined });
+      expect(rules[2]).toMatchObject({ name: 'Rule 3', binCountries: ['US', 'CA'] });
+    });
+  });
+
+  describe('matchesRoutingRule', () => {
+    const [eur, amex, us] = parseRoutingRules(routingRules.ruleValues);
+
+    it('should match every condition of a rule', () => {
+      expect(matchesRoutingRule(eur, { currency: 'EUR', amount: 10 })).toBe(true);
+      expect(matchesRoutingRule(eur, { currency: 'USD', amount: 10 })).toBe(false);
+      expect(
+        matchesRoutingRule(amex, { currency: 'USD', amount: 750, cardType: 'american_express' }),
+      ).toBe(true);
+      expect(
+        matchesRoutingRule(amex, { currency: 'USD', amount: 100, cardType: 'american_express' }),
+      ).toBe(false);
+      expect(matchesRoutingRule(us, { currency: 'USD', binCountry: 'ca' })).toBe(true);
+    });
+
+    it('should not match amount ranges without an amount', () => {
+      expect(matchesRoutingRule(amex, { currency: 'USD', cardType: 'american_express' })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('getBinCountry', () => {
+    it('should read the issuing country from BIN metadata', () => {
+      expect(getBinCountry({ bin_metadata: { issuing_country_iso_a2_code: 'de' } })).toBe('DE');
+      expect(getBinCountry({})).toBeUndefined();
+    });
+  });
+
+  describe('routeGateway', () => {
+    it('should report the first matching rule', async () => {
+      const httpRequest = jest.fn().mockResolvedValue({
+        payment_method: { card_type: 'visa', bin_metadata: { issuing_country_iso_a2_code: 'US' } },
+      });
+      const context = createContext({ routingRules }, httpRequest);
+
+      const selection = await routeGateway.call(context as any, 0, 'pm1', 'USD', 20);
+
+      expect(httpRequest.mock.calls[0][0].url).toBe(
+        'https://core.spreedly.com/v1/payment_methods/pm1.json',
+      );
+      expect(selection).toEqual({
+        gatewayToken: 'us_gw',
+        routing: {
+          rule: 'Rule 3',
+          ruleIndex: 2,
+          isDefault: false,
+          gatewayToken: 'us_gw',
+          matchedOn: { currency: 'USD', amount: 20, cardType: 'visa', binCountry: 'US' },
+        },
+      });
+    });
+
+    it('should report the position of the rule in the list', async () => {
+      const ruleValues = [{ name: 'Incomplete', currencies: ['USD'] }, { gatewayToken: 'us_gw' }];
+      const context = createContext({ routingRules: { ruleValues } }, jest.fn());
+
+      const selection = await routeGateway.call(context as any, 0, 'pm1', 'USD', 20);
+
+      expect(selection.routing).toMatchObject({ rule: 'Rule 2', ruleIndex: 1 });
+    });
+
+    it('should fall back to the default gateway', async () => {
+      const context = createContext(
+        { routingRules: { ruleValues: [routingRules.ruleValues[0]] }, defaultGatewayToken: 'def' },
+        jest.fn(),
+      );
+
+      const selection = await routeGateway.call(context as any, 0, 'pm1', 'GBP', 20);
+
+      expect(context.helpers.httpRequest).not.toHaveBeenCalled();
+      expect(selection.gatewayToken).toBe('def');
+      expect(selection.routing).toMatchObject({
+        rule: 'Default',
+        ruleIndex: null,
+        isDefault: true,
+      });
+    });
+
+    it('should fail when nothing matches and there is no default', async () => {
+      const context = createContext(
+        { routingRules: { ruleValues: [routingRules.ruleValues[0]] } },
+        jest.fn(),
+      );
+
+      await expect(routeGateway.call(context as any, 0, 'pm1', 'GBP', 20)).rejects.toThrow(
+        'No routing rule matched and no default gateway is set',
+      );
+    });
+  });
+
+  describe('purchase with routing rules', () => {
+    it('should charge the routed gateway and output the routing decision', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ transaction: { token: 'txn1', state: 'succeeded' } });
+      const context = createContext(
+        {
+          gatewaySelection: 'rules',
+          routingRules: { ruleValues: [routingRules.ruleValues[0]] },
+          paymentMethodToken: 'pm1',
+          amount: 10,
+          currency: 'EUR',
+        },
+        httpRequest,
+      );
+
+      const [result] = await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest.mock.calls[0][0].url).toBe(
+        'https://core.spreedly.com/v1/gateways/adyen_gw/purchase.json',
+      );
+      expect(result.json.routing).toMatchObject({ rule: 'EUR to Adyen', gatewayToken: 'adyen_gw' });
+    });
+  });
+});
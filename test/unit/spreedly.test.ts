@@ -14,13 +14,39 @@ import {
   snakeToCamel,
   camelToSnake,
   parseWebhookPayload,
+  parseWebhookPayloads,
+  verifySignedRecord,
+  buildTransactionListQuery,
+  matchesTransactionFilters,
+  metadataPairsToObject,
+  shapeMetadata,
+  detectCardBrand,
+  validateCreditCard,
+  redactSensitiveData,
+  parseTranscript,
+  decodeTranscriptBody,
+  findGatewayAuthMode,
+  getMissingGatewayCredentials,
 } from '../../nodes/Spreedly/utils';
+import { createHmac } from 'crypto';
 
 import {
   formatAmountInCents,
   formatCentsToAmount,
   buildCreditCardPaymentMethod,
   buildBankAccountPaymentMethod,
+  buildWalletPaymentMethod,
+  buildThirdPartyTokenPaymentMethod,
+  buildPaymentMethodUpdate,
+  getBaseUrl,
+  isSandboxGateway,
+  spreedlyApiCredentialTest,
+  spreedlyApiRequestAllItems,
+  spreedlyApiRequest,
+  computeRetryDelay,
+  isRetryableError,
+  isMoneyMovingEndpoint,
+  getGatewayCatalog,
 } from '../../nodes/Spreedly/transport';
 
 describe('Spreedly Utilities', () => {
@@ -82,6 +108,61 @@ describe('Spreedly Utilities', () => {
       expect(isValidCvv('12345')).toBe(false);
       expect(isValidCvv('abc')).toBe(false);
     });
+
+    it('should apply the CVV length of the card brand', () => {
+      expect(isValidCvv('1234', 'american_express')).toBe(true);
+      expect(isValidCvv('123', 'american_express')).toBe(false);
+      expect(isValidCvv('1234', 'visa')).toBe(false);
+    });
+  });
+
+  describe('detectCardBrand', () => {
+    it('should map BIN ranges to card types', () => {
+      expect(detectCardBrand('4111111111111111')).toBe('visa');
+      expect(detectCardBrand('5555555555554444')).toBe('master');
+      expect(detectCardBrand('2223003122003222')).toBe('master');
+      expect(detectCardBrand('378282246310005')).toBe('american_express');
+      expect(detectCardBrand('6011111111111117')).toBe('discover');
+      expect(detectCardBrand('3530111333300000')).toBe('jcb');
+      expect(detectCardBrand('30569309025904')).toBe('diners_club');
+      expect(detectCardBrand('6759649826438453')).toBe('maestro');
+    });
+
+    it('should return undefined for unknown BINs', () => {
+      expect(detectCardBrand('9999999999999995')).toBeUndefined();
+    });
+  });
+
+  describe('validateCreditCard', () => {
+    const nextYear = new Date().getFullYear() + 1;
+
+    it('should accept a valid card', () => {
+      const result = validateCreditCard({
+        cardNumber: '4111 1111 1111 1111',
+        expirationMonth: 12,
+        expirationYear: nextYear,
+        cvv: '123',
+      });
+
+      expect(result).toEqual({ valid: true, brand: 'visa', errors: [] });
+    });
+
+    it('should report every failed check', () => {
+      const result = validateCreditCard({
+        cardNumber: '378282246310006',
+        expirationMonth: 1,
+        expirationYear: 2020,
+        cvv: '123',
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.brand).toBe('american_express');
+      expect((result.errors as any[]).map((error) => error.field)).toEqual([
+        'cardNumber',
+        'expiration',
+        'cvv',
+      ]);
+    });
   });
 
   describe('maskCardNumber', () => {
@@ -108,6 +189,271 @@ describe('Spreedly Utilities', () => {
     });
   });
 
+  describe('transaction list filters', () => {
+    const filters = {
+      states: ['failed', 'gateway_processing_failed'],
+      transactionTypes: ['Capture'],
+      createdAfter: '2026-10-18T00:00:00Z',
+      createdBefore: '2026-10-18T23:59:59Z',
+    };
+
+    it('should build the list query', () => {
+      expect(buildTransactionListQuery({ ...filters, orderId: 'ORDER-1' })).toEqual({
+        state: 'failed,gateway_processing_failed',
+        transaction_type: 'Capture',
+        order_id: 'ORDER-1',
+        created_at_gte: '2026-10-18T00:00:00Z',
+        created_at_lte: '2026-10-18T23:59:59Z',
+      });
+    });
+
+    it('should match transactions client-side', () => {
+      const transaction = {
+        state: 'failed',
+        transaction_type: 'Capture',
+        created_at: '2026-10-18T10:00:00Z',
+      };
+      expect(matchesTransactionFilters(transaction, filters)).toBe(true);
+      expect(matchesTransactionFilters({ ...transaction, state: 'succeeded' }, filters)).toBe(false);
+      expect(
+        matchesTransactionFilters({ ...transaction, created_at: '2026-10-17T10:00:00Z' }, filters),
+      ).toBe(false);
+    });
+  });
+
+  describe('metadataPairsToObject', () => {
+    it('should convert pairs and skip blank keys', () => {
+      const result = metadataPairsToObject([
+        { key: 'tenant_id', value: 't1' },
+        { key: ' campaign ', value: 'spring' },
+        { key: '', value: 'ignored' },
+      ]);
+
+      expect(result).toEqual({ tenant_id: 't1', campaign: 'spring' });
+    });
+
+    it('should return an empty object without pairs', () => {
+      expect(metadataPairsToObject()).toEqual({});
+    });
+  });
+
+  describe('shapeMetadata', () => {
+    const transaction = {
+      token: 'txn1',
+      metadata: { tenant_id: 't1', campaign_id: 'c1', internal: 'x' },
+      payment_method: { token: 'pm1', metadata: { tenant_id: 't1' } },
+    };
+
+    it('should keep only the listed keys', () => {
+      const result = shapeMetadata(transaction, 'filter', ['tenant_id', 'campaign_id']);
+
+      expect(result.metadata).toEqual({ tenant_id: 't1', campaign_id: 'c1' });
+    });
+
+    it('should flatten metadata, including the nested payment method', () => {
+      const result = shapeMetadata(transaction, 'flatten');
+
+      expect(result.metadata).toBeUndefined();
+      expect(result.metadata_tenant_id).toBe('t1');
+      expect(result.metadata_internal).toBe('x');
+      expect((result.payment_method as any).metadata_tenant_id).toBe('t1');
+    });
+
+    it('should leave data without metadata untouched', () => {
+      expect(shapeMetadata({ token: 'gw1' }, 'flatten')).toEqual({ token: 'gw1' });
+    });
+  });
+
+  describe('redactSensitiveData', () => {
+    it('should mask card and bank numbers and drop CVVs', () => {
+      const result = redactSensitiveData({
+        payment_method: {
+          number: '4111111111111111',
+          verification_value: '123',
+          bank_account_number: '9876543210',
+          bank_routing_number: '021000021',
+          last_four_digits: '1111',
+        },
+      });
+
+      expect(result.payment_method).toEqual({
+        number: '****1111',
+        bank_account_number: '****3210',
+        bank_routing_number: '****0021',
+        last_four_digits: '1111',
+      });
+    });
+
+    it('should mask PAN-like digit runs inside text', () => {
+      const result = redactSensitiveData({ note: 'card 4111 1111 1111 1111 declined' });
+
+      expect(result.note).toBe('card ****1111 declined');
+    });
+
+    it('should leave digit runs that are not card numbers', () => {
+      const result = redactSensitiveData({ created: '1729000000000', order: '4111111111111112' });
+
+      expect(result).toEqual({ created: '1729000000000', order: '4111111111111112' });
+    });
+
+    it('should leave Luhn-valid identifiers untouched', () => {
+      const transaction = {
+        order_id: '483012345678909',
+        network_transaction_id: '483012345678909',
+        gateway_transaction_id: '483012345678909',
+        storedCredential: { networkTransactionId: '483012345678909' },
+        message: 'Declined 483012345678909',
+      };
+
+      expect(redactSensitiveData(transaction)).toEqual({
+        ...transaction,
+        message: 'Declined ****8909',
+      });
+    });
+
+    it('should scrub Authorization headers and CVVs in transcripts', () => {
+      const transcript =
+        '<- "POST /v1/charges HTTP/1.1\\r\\nAuthorization: Basic c2tfdGVzdA==\\r\\n"\n' +
+        '<- "card[cvc]=123&card[number]=4242424242424242"';
+
+      const result = redactSensitiveData({ transcript, headers: { Authorization: 'Bearer x' } });
+
+      expect(result.transcript).not.toContain('c2tfdGVzdA==');
+      expect(result.transcript).not.toContain('cvc]=123');
+      expect(result.transcript).not.toContain('4242424242424242');
+      expect(result.headers.Authorization).toBe('[REDACTED]');
+    });
+  });
+
+  describe('parseTranscript', () => {
+    const transcript = [
+      'opening connection to api.stripe.com:443...',
+      'opened',
+      '<- "POST /v1/charges HTTP/1.1\\r\\nContent-Type: application/x-www-form-urlencoded\\r\\nAuthorization: Basic c2tfdGVzdA==\\r\\nHost: api.stripe.com\\r\\n\\r\\n"',
+      '<- "amount=100&currency=usd&card[number]=4242424242424242&card[cvc]=123"',
+      '-> "HTTP/1.1 402 Payment Required\\r\\n"',
+      '-> "Content-Type: application/json\\r\\n"',
+      '-> "\\r\\n"',
+      'reading 52 bytes...',
+      '-> "{\\"error\\":{\\"code\\":\\"card_declined\\",\\"decline_code\\":\\"do_not_honor\\"}}"',
+      'read 52 bytes',
+      'Conn close',
+    ].join('\n');
+
+    it('should split the transcript into request/response exchanges', async () => {
+      const [exchange] = await parseTranscript(transcript);
+      const request = exchange.request as any;
+      const response = exchange.response as any;
+
+      expect(request.method).toBe('POST');
+      expect(request.url).toBe('https://api.stripe.com/v1/charges');
+      expect(request.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+      expect(request.bodyFormat).toBe('form');
+      expect(request.body.amount).toBe('100');
+      expect(response.statusCode).toBe(402);
+      expect(response.statusMessage).toBe('Payment Required');
+      expect(response.bodyFormat).toBe('json');
+      expect(response.body.error.code).toBe('card_declined');
+    });
+
+    it('should start a new exchange for each request', async () => {
+      const exchanges = await parseTranscript(`${transcript}\n${transcript}`);
+
+      expect(exchanges).toHaveLength(2);
+    });
+
+    it('should produce redactable exchanges', async () => {
+      const [exchange] = redactSensitiveData(await parseTranscript(transcript));
+
+      expect(exchange.request.headers.Authorization).toBe('[REDACTED]');
+      expect(exchange.request.body['card[number]']).toBe('****4242');
+      expect(exchange.request.body['card[cvc]']).toBeUndefined();
+    });
+
+    it('should decode XML bodies', async () => {
+      const result = await decodeTranscriptBody(
+        '<response><result>Declined</result><code>05</code></response>',
+        'text/xml',
+      );
+
+      expect(result).toEqual({
+        format: 'xml',
+        body: { response: { result: 'Declined', code: '05' } },
+      });
+    });
+
+    it('should keep plain text bodies', async () => {
+      expect(await decodeTranscriptBody('OK accepted')).toEqual({ format: 'text', body: 'OK accepted' });
+    });
+  });
+
+  describe('gateway auth modes', () => {
+    const catalog = [
+      {
+        gateway_type: 'braintree',
+        name: 'Braintree',
+        auth_modes: [
+          {
+            auth_mode_type: 'orange',
+            name: 'Braintree Orange',
+            credentials: [{ name: 'login', label: 'Username' }],
+          },
+          {
+            auth_mode_type: 'blue',
+            name: 'Braintree Blue',
+            credentials: [
+              { name: 'public_key', label: 'Public Key' },
+              { name: 'private_key', label: 'Private Key' },
+            ],
+          },
+        ],
+      },
+    ];
+
+    it('should find the selected auth mode or default to the first', () => {
+      expect(findGatewayAuthMode(catalog, 'braintree', 'blue')?.name).toBe('Braintree Blue');
+      expect(findGatewayAuthMode(catalog, 'braintree')?.name).toBe('Braintree Orange');
+      expect(findGatewayAuthMode(catalog, 'stripe')).toBeUndefined();
+    });
+
+    it('should list the labels of credentials without a value', () => {
+      const authMode = catalog[0].auth_modes[1];
+      const credentials = { public_key: 'pk', private_key: '' };
+      expect(getMissingGatewayCredentials(authMode, credentials)).toEqual(['Private Key']);
+    });
+  });
+
+  describe('verifySignedRecord', () => {
+    const record = {
+      token: 'txn123',
+      amount: { _: '100', $: { type: 'integer' } },
+      order_id: { $: { nil: 'true' } },
+    };
+    const sign = (algorithm: string, secret = 'secret') => ({
+      ...record,
+      signed: {
+        signature: createHmac(algorithm, secret).update('txn123|100|').digest('hex'),
+        fields: 'token amount order_id',
+        algorithm,
+      },
+    });
+
+    it('should accept SHA-1 and SHA-256 signed blocks', () => {
+      expect(verifySignedRecord(sign('sha1'), 'secret')).toBe(true);
+      expect(verifySignedRecord(sign('sha256'), 'secret')).toBe(true);
+    });
+
+    it('should reject blocks signed with another secret or missing', () => {
+      expect(verifySignedRecord(sign('sha1', 'other'), 'secret')).toBe(false);
+      expect(verifySignedRecord(record, 'secret')).toBe(false);
+      expect(verifySignedRecord(sign('sha1'), '')).toBe(false);
+    });
+
+    it('should reject unsupported algorithms', () => {
+      expect(verifySignedRecord(sign('md5'), 'secret')).toBe(false);
+    });
+  });
+
   describe('parseWebhookPayload', () => {
     it('should parse transaction webhook', () => {
       const payload = {
@@ -138,6 +484,51 @@ describe('Spreedly Utilities', () => {
       expect(result.type).toBe('unknown');
     });
   });
+
+  describe('parseWebhookPayloads', () => {
+    it('should split a JSON batch into one event per transaction', () => {
+      const events = parseWebhookPayloads({
+        batch_id: 'batch1',
+        transactions: [{ token: 'txn1' }, { token: 'txn2' }],
+      });
+
+      expect(events).toHaveLength(2);
+      expect(events[1]).toMatchObject({
+        type: 'transaction',
+        data: { token: 'txn2' },
+        batchId: 'batch1',
+        batchIndex: 1,
+        batchSize: 2,
+      });
+    });
+
+    it('should split the XML transactions.transaction shape', () => {
+      const events = parseWebhookPayloads({
+        transactions: { transaction: [{ token: 'txn1' }, { token: 'txn2' }] },
+      });
+
+      expect(events.map((event) => (event.data as { token: string }).token)).toEqual([
+        'txn1',
+        'txn2',
+      ]);
+      expect(events[0].batchId).toEqual(events[1].batchId);
+      expect(events[0].batchId).toEqual(expect.any(String));
+    });
+
+    it('should accept a batch with a single XML record', () => {
+      const events = parseWebhookPayloads({ transactions: { transaction: { token: 'txn1' } } });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ data: { token: 'txn1' }, batchSize: 1 });
+    });
+
+    it('should keep single-record payloads unbatched', () => {
+      const [event] = parseWebhookPayloads({ transaction: { token: 'txn1' } });
+
+      expect(event.type).toBe('transaction');
+      expect(event.batchId).toBeUndefined();
+    });
+  });
 });
 
 describe('Spreedly Transport', () => {
@@ -153,6 +544,435 @@ describe('Spreedly Transport', () => {
     });
   });
 
+  describe('getBaseUrl', () => {
+    it('should use the credential base URL without a trailing slash', () => {
+      expect(getBaseUrl({ baseUrl: 'http://localhost:4010/v1/' })).toBe('http://localhost:4010/v1');
+    });
+
+    it('should fall back to the public endpoint', () => {
+      expect(getBaseUrl({ baseUrl: '' })).toBe('https://core.spreedly.com/v1');
+    });
+  });
+
+  describe('isSandboxGateway', () => {
+    it('should accept test and sandbox gateways', () => {
+      expect(isSandboxGateway({ gateway_type: 'test' })).toBe(true);
+      expect(isSandboxGateway({ gateway_type: 'stripe', sandbox: true })).toBe(true);
+    });
+
+    it('should reject live gateways', () => {
+      expect(isSandboxGateway({ gateway_type: 'stripe', sandbox: false })).toBe(false);
+    });
+  });
+
+  describe('sandbox only credentials', () => {
+    const createContext = (httpRequest: jest.Mock, sandboxOnly = true) => ({
+      getCredentials: jest
+        .fn()
+        .mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1', sandboxOnly }),
+      getNode: jest.fn().mockReturnValue({ name: 'Spreedly' }),
+      getNodeParameter: jest.fn().mockReturnValue({}),
+      helpers: { httpRequest },
+    });
+    const liveGateway = { gateway: { token: 'gw1', gateway_type: 'stripe', sandbox: false } };
+
+    it('should not check gateways when the credential is not sandbox only', async () => {
+      const httpRequest = jest.fn().mockResolvedValue({ transaction: { token: 'txn1' } });
+      await spreedlyApiRequest.call(
+        createContext(httpRequest, false) as any,
+        'POST',
+        '/gateways/gw1/purchase.json',
+      );
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should look up each gateway once per execution', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ gateway: { token: 'gw1', gateway_type: 'test' } })
+        .mockResolvedValue({ transaction: { token: 'txn1' } });
+      const context = createContext(httpRequest);
+
+      await spreedlyApiRequest.call(context as any, 'POST', '/gateways/gw1/purchase.json');
+      await spreedlyApiRequest.call(context as any, 'POST', '/gateways/gw1/verify.json');
+
+      expect(httpRequest).toHaveBeenCalledTimes(3);
+      expect(httpRequest.mock.calls[0][0].url).toContain('/gateways/gw1.json');
+    });
+
+    it('should refuse live gateways', async () => {
+      const httpRequest = jest.fn().mockResolvedValue(liveGateway);
+      await expect(
+        spreedlyApiRequest.call(
+          createContext(httpRequest) as any,
+          'POST',
+          '/gateways/gw1/authorize.json',
+        ),
+      ).rejects.toThrow('Sandbox mode refuses to use gateway gw1');
+    });
+
+    it.each(['capture', 'credit', 'void', 'complete'])(
+      'should refuse to %s transactions of live gateways',
+      async (action) => {
+        const httpRequest = jest
+          .fn()
+          .mockResolvedValueOnce({ transaction: { token: 'txn1', gateway_token: 'gw1' } })
+          .mockResolvedValueOnce(liveGateway);
+        await expect(
+          spreedlyApiRequest.call(
+            createContext(httpRequest) as any,
+            'POST',
+            `/transactions/txn1/${action}.json`,
+          ),
+        ).rejects.toThrow('Sandbox mode refuses to use gateway gw1');
+        expect(httpRequest.mock.calls[0][0].url).toContain('/transactions/txn1.json');
+      },
+    );
+  });
+
+  describe('spreedlyApiCredentialTest', () => {
+    const credential = {
+      id: '1',
+      name: 'Spreedly',
+      type: 'spreedlyApi',
+      data: { environmentKey: 'key', accessSecret: 'secret', baseUrl: 'http://localhost:4010/v1' },
+    };
+    const testWith = (request: jest.Mock) =>
+      spreedlyApiCredentialTest.call({ helpers: { request } } as any, credential);
+
+    it('should succeed when gateways are listed', async () => {
+      const result = await testWith(jest.fn().mockResolvedValue({ gateways: [] }));
+      expect(result.status).toBe('OK');
+    });
+
+    it('should report rejected credentials', async () => {
+      const result = await testWith(jest.fn().mockRejectedValue({ statusCode: 401 }));
+      expect(result.status).toBe('Error');
+      expect(result.message).toContain('Environment Key');
+    });
+
+    it('should report an unreachable base URL', async () => {
+      const result = await testWith(jest.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND')));
+      expect(result.status).toBe('Error');
+      expect(result.message).toContain('Could not reach Base URL http://localhost:4010/v1');
+    });
+  });
+
+  describe('spreedlyApiRequestAllItems', () => {
+    const page = (...tokens: string[]) => ({ gateways: tokens.map((token) => ({ token })) });
+    const createContext = (httpRequest: jest.Mock) => ({
+      getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1' }),
+      getNode: jest.fn(),
+      helpers: { httpRequest },
+    });
+
+    it('should follow since_token cursors until an empty page', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce(page('a', 'b'))
+        .mockResolvedValueOnce(page('c'))
+        .mockResolvedValueOnce(page());
+      const items = await spreedlyApiRequestAllItems.call(
+        createContext(httpRequest) as any,
+        'GET',
+        '/gateways.json',
+        'gateways',
+        {},
+        {},
+        { pageSize: 2, order: 'desc' },
+      );
+
+      expect(items.map((item) => item.token)).toEqual(['a', 'b', 'c']);
+      expect(httpRequest.mock.calls[0][0].qs).toEqual({ count: 2, order: 'desc' });
+      expect(httpRequest.mock.calls[1][0].qs).toEqual({ count: 2, order: 'desc', since_token: 'b' });
+    });
+
+    it('should stop when the cursor repeats', async () => {
+      const httpRequest = jest.fn().mockResolvedValue(page('a', 'b'));
+      const items = await spreedlyApiRequestAllItems.call(
+        createContext(httpRequest) as any,
+        'GET',
+        '/gateways.json',
+        'gateways',
+      );
+
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+      expect(items).toHaveLength(4);
+    });
+
+    it('should honour the limit and page cap', async () => {
+      const httpRequest = jest.fn().mockImplementation(async (options: any) =>
+        page(`${options.qs.since_token ?? ''}x`, `${options.qs.since_token ?? ''}y`),
+      );
+      const limited = await spreedlyApiRequestAllItems.call(
+        createContext(httpRequest) as any,
+        'GET',
+        '/gateways.json',
+        'gateways',
+        {},
+        {},
+        { limit: 3, pageSize: 2 },
+      );
+      expect(limited).toHaveLength(3);
+
+      httpRequest.mockClear();
+      await spreedlyApiRequestAllItems.call(
+        createContext(httpRequest) as any,
+        'GET',
+        '/gateways.json',
+        'gateways',
+        {},
+        {},
+        { maxPages: 5 },
+      );
+      expect(httpRequest).toHaveBeenCalledTimes(5);
+    });
+
+    it('should report when a safety cap stops paging', async () => {
+      const httpRequest = jest.fn().mockImplementation(async (options: any) =>
+        page(`${options.qs.since_token ?? ''}x`),
+      );
+      const onCapReached = jest.fn();
+      const fetch = (pagination: object) =>
+        spreedlyApiRequestAllItems.call(
+          createContext(httpRequest) as any,
+          'GET',
+          '/gateways.json',
+          'gateways',
+          {},
+          {},
+          { ...pagination, onCapReached },
+        );
+
+      await fetch({ maxPages: 2 });
+      await fetch({ limit: 2 });
+      await fetch({ maxPages: 3, until: (item: any) => item.token === 'xx' });
+
+      expect(onCapReached.mock.calls).toEqual([['maxPages']]);
+    });
+  });
+
+  describe('retry policy', () => {
+    const policy = { maxAttempts: 3, retryableStatusCodes: [429, 503] };
+    const httpError = (status: number, headers: any = {}, data: any = {}) =>
+      Object.assign(new Error(`HTTP ${status}`), { response: { status, headers, data } });
+    const createContext = (httpRequest: jest.Mock, requestOptions: any = {}) => ({
+      getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1' }),
+      getInputData: jest.fn(),
+      getNodeParameter: jest.fn().mockReturnValue(requestOptions),
+      getNode: jest.fn(),
+      helpers: { httpRequest },
+    });
+
+    it('should classify retryable failures', () => {
+      expect(isRetryableError(httpError(503), policy)).toBe(true);
+      expect(isRetryableError(httpError(422), policy)).toBe(false);
+      expect(isRetryableError(httpError(503, {}, { transaction: {} }), policy)).toBe(false);
+      expect(isRetryableError(Object.assign(new Error(), { code: 'ECONNRESET' }), policy)).toBe(true);
+    });
+
+    it('should detect money-moving endpoints', () => {
+      expect(isMoneyMovingEndpoint('/gateways/gw1/purchase.json')).toBe(true);
+      expect(isMoneyMovingEndpoint('/transactions/txn1/capture.json')).toBe(true);
+      expect(isMoneyMovingEndpoint('/transactions/txn1/complete.json')).toBe(true);
+      expect(isMoneyMovingEndpoint('/receivers/rc1/deliver.json')).toBe(true);
+      expect(isMoneyMovingEndpoint('/gateways/gw1/verify.json')).toBe(false);
+    });
+
+    it('should honour Retry-After and back off exponentially', () => {
+      expect(computeRetryDelay(1, '2')).toBe(2000);
+      expect(computeRetryDelay(3)).toBeGreaterThanOrEqual(1000);
+      expect(computeRetryDelay(3)).toBeLessThanOrEqual(2000);
+    });
+
+    it('should retry a GET until it succeeds', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503, { 'retry-after': '0' }))
+        .mockResolvedValueOnce({ gateway: { token: 'gw1' } });
+      const response = await spreedlyApiRequest.call(
+        createContext(httpRequest) as any,
+        'GET',
+        '/gateways/gw1.json',
+      );
+      expect(response.gateway.token).toBe('gw1');
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry beyond max attempts', async () => {
+      const httpRequest = jest.fn().mockRejectedValue(httpError(503, { 'retry-after': '0' }));
+      await expect(
+        spreedlyApiRequest.call(
+          createContext(httpRequest, { maxAttempts: 1 }) as any,
+          'GET',
+          '/gateways/gw1.json',
+        ),
+      ).rejects.toThrow();
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return an existing transaction instead of retrying a purchase', async () => {
+      const existing = {
+        token: 'txn1',
+        transaction_type: 'Purchase',
+        created_at: new Date(Date.now() + 1000).toISOString(),
+      };
+      const httpRequest: jest.Mock = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockImplementationOnce(async () => ({
+          transactions: [
+            { ...existing, metadata: httpRequest.mock.calls[0][0].body.transaction.metadata },
+          ],
+        }));
+      const response = await spreedlyApiRequest.call(
+        createContext(httpRequest) as any,
+        'POST',
+        '/gateways/gw1/purchase.json',
+        { transaction: { payment_method_token: 'pm1', amount: 1000 } },
+      );
+
+      expect(response.transaction).toMatchObject(existing);
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+      expect(httpRequest.mock.calls[1][0].url).toContain('/gateways/gw1/transactions.json');
+    });
+
+    it('should not take an earlier transaction for the same card and amount', async () => {
+      const earlier = {
+        token: 'PREVIOUS_ITEM_TXN',
+        transaction_type: 'Purchase',
+        amount: 1000,
+        created_at: new Date(Date.now() - 30000).toISOString(),
+        payment_method: { token: 'pm1' },
+      };
+      const httpRequest = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503, { 'retry-after': '0' }))
+        .mockResolvedValueOnce({ transactions: [earlier] })
+        .mockResolvedValueOnce({ transaction: { token: 'txn2' } });
+      const response = await spreedlyApiRequest.call(
+        createContext(httpRequest) as any,
+        'POST',
+        '/gateways/gw1/purchase.json',
+        { transaction: { payment_method_token: 'pm1', amount: 1000 } },
+      );
+
+      expect(response.transaction.token).toBe('txn2');
+      expect(httpRequest.mock.calls[2][0].body.transaction.metadata).toEqual(
+        httpRequest.mock.calls[0][0].body.transaction.metadata,
+      );
+    });
+
+    it('should fail instead of guessing when the request has no marker', async () => {
+      const httpRequest = jest.fn().mockRejectedValueOnce(httpError(503));
+      await expect(
+        spreedlyApiRequest.call(
+          createContext(httpRequest) as any,
+          'POST',
+          '/gateways/gw1/purchase.json',
+          { transaction: { payment_method_token: 'pm1', amount: 1000, metadata: 'invalid' } },
+        ),
+      ).rejects.toThrow('HTTP 503');
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reconcile 3DS Complete from the transaction state', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce({ transaction: { token: 'txn1', state: 'succeeded' } });
+      const response = await spreedlyApiRequest.call(
+        createContext(httpRequest) as any,
+        'POST',
+        '/transactions/txn1/complete.json',
+      );
+
+      expect(response.transaction.state).toBe('succeeded');
+      expect(httpRequest.mock.calls[1][0].url).toContain('/transactions/txn1.json');
+    });
+
+    it('should never retry receiver deliveries', async () => {
+      const httpRequest = jest.fn().mockRejectedValue(httpError(503, { 'retry-after': '0' }));
+      await expect(
+        spreedlyApiRequest.call(
+          createContext(httpRequest) as any,
+          'POST',
+          '/receivers/rc1/deliver.json',
+        ),
+      ).rejects.toThrow();
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getGatewayCatalog', () => {
+    const createContext = (httpRequest: jest.Mock) => ({
+      getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1' }),
+      getNode: jest.fn(),
+      helpers: { httpRequest },
+    });
+
+    it('should load gateways and auth modes from the gateway options endpoint', async () => {
+      const httpRequest = jest.fn().mockResolvedValue({
+        gateways: [
+          {
+            gateway_type: 'adyen',
+            name: 'Adyen',
+            supported_countries: ['NL'],
+            auth_modes: [
+              {
+                auth_mode_type: 'api_key',
+                name: 'API Key',
+                credentials: [{ name: 'api_key', label: 'API Key', safe: false }],
+              },
+            ],
+          },
+        ],
+      });
+      const context = createContext(httpRequest);
+
+      const catalog = await getGatewayCatalog.call(context as any);
+      await getGatewayCatalog.call(context as any);
+
+      expect(catalog).toEqual([
+        {
+          gateway_type: 'adyen',
+          name: 'Adyen',
+          auth_modes: [
+            {
+              auth_mode_type: 'api_key',
+              name: 'API Key',
+              credentials: [{ name: 'api_key', label: 'API Key', safe: false, large: undefined }],
+            },
+          ],
+        },
+      ]);
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+      expect(httpRequest.mock.calls[0][0].url).toBe(
+        'https://core.spreedly.com/v1/gateways_options.json',
+      );
+    });
+
+    it('should fall back to the bundled snapshot when the endpoint fails', async () => {
+      const httpRequest = jest.fn().mockRejectedValue({ response: { status: 501, data: {} } });
+
+      const catalog = await getGatewayCatalog.call(createContext(httpRequest) as any);
+
+      const braintree = catalog.find((gateway) => gateway.gateway_type === 'braintree');
+      expect(braintree?.auth_modes.map((authMode) => authMode.auth_mode_type)).toEqual([
+        'orange',
+        'blue',
+      ]);
+    });
+
+    it('should not hide authentication errors behind the snapshot', async () => {
+      const httpRequest = jest.fn().mockRejectedValue({ response: { status: 401, data: {} } });
+
+      await expect(getGatewayCatalog.call(createContext(httpRequest) as any)).rejects.toMatchObject(
+        { category: 'authentication' },
+      );
+    });
+  });
+
   describe('formatCentsToAmount', () => {
     it('should convert cents to dollars', () => {
       expect(formatCentsToAmount(1000)).toBe(10.00);
@@ -216,6 +1036,60 @@ describe('Spreedly Transport', () => {
       expect((result.bank_account as any).bank_account_type).toBe('checking');
     });
   });
+
+  describe('buildPaymentMethodUpdate', () => {
+    it('should include only the changed fields', () => {
+      const result = buildPaymentMethodUpdate({
+        firstName: 'Jane',
+        expirationYear: 2030,
+        city: 'Boston',
+        email: '',
+      });
+
+      expect(result).toEqual({ first_name: 'Jane', year: 2030, city: 'Boston' });
+    });
+
+    it('should never send the card number or CVV', () => {
+      const result = buildPaymentMethodUpdate({ cardNumber: '4111111111111111', cvv: '123' });
+
+      expect(result).toEqual({});
+    });
+  });
+
+  describe('buildWalletPaymentMethod', () => {
+    it('should nest the encrypted token under the wallet type', () => {
+      const paymentData = { version: 'EC_v1', data: 'abc', signature: 'sig' };
+      const result = buildWalletPaymentMethod('apple_pay', {
+        paymentData,
+        certificateToken: 'cert1',
+        testCardNumber: '4111111111111111',
+      });
+
+      expect(result.apple_pay).toEqual({
+        payment_data: paymentData,
+        test_card_number: '4111111111111111',
+      });
+      expect(result.certificate_token).toBe('cert1');
+    });
+
+    it('should omit empty optional fields', () => {
+      const result = buildWalletPaymentMethod('google_pay', { paymentData: {}, certificateToken: '' });
+
+      expect(result).toEqual({ google_pay: { payment_data: {} } });
+    });
+  });
+
+  describe('buildThirdPartyTokenPaymentMethod', () => {
+    it('should build a third-party token object', () => {
+      const result = buildThirdPartyTokenPaymentMethod({ reference: 'cus_123', gatewayType: 'stripe' });
+
+      expect(result).toEqual({
+        payment_method_type: 'third_party_token',
+        reference: 'cus_123',
+        gateway_type: 'stripe',
+      });
+    });
+  });
 });
 
 describe('Constants', () => {
@@ -238,3 +1112,263 @@ describe('Constants', () => {
     expect(LICENSING_NOTICE).toContain('Business Source License 1.1');
   });
 });
+
+describe('Spreedly Errors', () => {
+  const {
+    SpreedlyApiError,
+    categorizeSpreedlyError,
+    getErrorOutput,
+  } = require('../../nodes/Spreedly/errors');
+  const node = { name: 'Spreedly', type: 'spreedly', typeVersion: 1, position: [0, 0], parameters: {} };
+
+  it('should categorize failures', () => {
+    expect(categorizeSpreedlyError(undefined, undefined)).toBe('network');
+    expect(categorizeSpreedlyError(401, {})).toBe('authentication');
+    expect(categorizeSpreedlyError(404, {})).toBe('notFound');
+    expect(categorizeSpreedlyError(429, {})).toBe('rateLimit');
+    expect(categorizeSpreedlyError(422, { errors: [] })).toBe('validation');
+    expect(categorizeSpreedlyError(422, { transaction: { state: 'failed' } })).toBe('gatewayDecline');
+    expect(
+      categorizeSpreedlyError(422, { transaction: { state: 'gateway_processing_failed' } }),
+    ).toBe('gatewayError');
+    expect(
+      categorizeSpreedlyError(422, { transaction: { state: 'gateway_processing_result_unknown' } }),
+    ).toBe('unknownResult');
+    expect(categorizeSpreedlyError(422, { transaction: { state: 'pending' } })).toBe('pending');
+    expect(categorizeSpreedlyError(502, {})).toBe('server');
+  });
+
+  it('should keep every errors[] entry', () => {
+    const body = {
+      errors: [
+        { attribute: 'number', key: 'errors.blank', message: "Number can't be blank" },
+        { attribute: 'month', key: 'errors.invalid', message: 'Month is invalid' },
+      ],
+    };
+    const error = new SpreedlyApiError(node, new Error('Request failed'), 422, body);
+
+    expect(error.message).toBe("Spreedly API Error: Number can't be blank; Month is invalid");
+    expect(getErrorOutput(error)).toEqual({
+      error: error.message,
+      errorCategory: 'validation',
+      httpCode: '422',
+      errors: body.errors,
+    });
+  });
+
+  it('should fall back to a plain error output', () => {
+    expect(getErrorOutput(new Error('boom'))).toEqual({ error: 'boom' });
+  });
+});
+
+describe('Spreedly Load Options', () => {
+  const { loadOptions } = require('../../nodes/Spreedly/methods');
+  const createContext = (response: Record<string, any>) => ({
+    getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1' }),
+    getNode: jest.fn(),
+    helpers: {
+      httpRequest: jest.fn().mockResolvedValueOnce(response).mockResolvedValue({}),
+    },
+  });
+
+  it('should list retained gateways with type, name and mode', async () => {
+    const context = createContext({
+      gateways: [
+        { token: 'gw1', name: 'Stripe EU', gateway_type: 'stripe', state: 'retained' },
+        { token: 'gw2', gateway_type: 'test', state: 'retained' },
+        { token: 'gw3', gateway_type: 'adyen', state: 'redacted' },
+      ],
+    });
+
+    const options = await loadOptions.getGateways.call(context);
+
+    expect(options).toEqual([
+      { name: 'Stripe EU (stripe, Live)', value: 'gw1', description: 'gw1' },
+      { name: 'test (test, Sandbox)', value: 'gw2', description: 'gw2' },
+    ]);
+    expect(context.helpers.httpRequest.mock.calls[0][0].qs).toMatchObject({ order: 'desc' });
+  });
+
+  it('should describe payment methods by holder and last four digits', async () => {
+    const context = createContext({
+      payment_methods: [
+        {
+          token: 'pm1',
+          first_name: 'Jane',
+          last_name: 'Doe',
+          card_type: 'visa',
+          last_four_digits: '1111',
+          storage_state: 'retained',
+        },
+        { token: 'pm2', payment_method_type: 'bank_account', storage_state: 'redacted' },
+      ],
+    });
+
+    const options = await loadOptions.getPaymentMethods.call(context);
+
+    expect(options).toEqual([
+      { name: 'Jane Doe (visa •••• 1111)', value: 'pm1', description: 'pm1 · retained' },
+    ]);
+  });
+
+  describe('gateway catalog', () => {
+    const { resourceMapping } = require('../../nodes/Spreedly/methods');
+    const createCatalogContext = (parameters: Record<string, string>) => ({
+      ...createContext({}),
+      helpers: {
+        httpRequest: jest.fn().mockRejectedValue({ code: 'ENOTFOUND' }),
+      },
+      getCurrentNodeParameter: jest.fn((name: string) => parameters[name]),
+    });
+
+    it('should list catalog and bundled gateway types when offline', async () => {
+      const options = await loadOptions.getGatewayTypes.call(createCatalogContext({}) as any);
+
+      const values = options.map((option: { value: string }) => option.value);
+      expect(values).toEqual(expect.arrayContaining(['adyen', 'braintree', 'mollie', 'test']));
+      expect(new Set(values).size).toBe(values.length);
+    });
+
+    it('should list the auth modes of the selected gateway type', async () => {
+      const options = await loadOptions.getGatewayAuthModes.call(
+        createCatalogContext({ gatewayType: 'braintree' }) as any,
+      );
+
+      expect(options).toEqual([
+        { name: 'Braintree Orange', value: 'orange', description: 'Username, Password' },
+        {
+          name: 'Braintree Blue',
+          value: 'blue',
+          description: 'Merchant ID, Public Key, Private Key',
+        },
+      ]);
+    });
+
+    it('should generate plain inputs only for non-secret credentials', async () => {
+      const { fields } = await resourceMapping.getGatewayCredentialFields.call(
+        createCatalogContext({ gatewayType: 'adyen', authMode: 'api_key' }) as any,
+      );
+
+      expect(fields.map((field: { id: string }) => field.id)).toEqual(['merchant_account']);
+      expect(fields[0]).toMatchObject({ displayName: 'Merchant Account', required: true });
+    });
+
+    it('should list secret credentials for the masked inputs', async () => {
+      const options = await loadOptions.getGatewaySecretCredentials.call(
+        createCatalogContext({ gatewayType: 'adyen', authMode: 'api_key' }) as any,
+      );
+
+      expect(options).toEqual([{ name: 'API Key', value: 'api_key' }]);
+    });
+  });
+});
+
+describe('Gateway Operations', () => {
+  const { gatewayOperations } = require('../../nodes/Spreedly/actions/gateway');
+  const createContext = (parameters: Record<string, any>) => {
+    const httpRequest = jest.fn().mockImplementation(async (options: any) => {
+      if (options.url.endsWith('/gateways_options.json')) {
+        throw { code: 'ENOTFOUND' };
+      }
+      return { gateway: { token: 'gw1', ...options.body.gateway } };
+    });
+    return {
+      getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Spreedly' }),
+      getNodeParameter: jest.fn((name: string, _i: number, fallback?: unknown) =>
+        name in parameters ? parameters[name] : fallback,
+      ),
+      helpers: { httpRequest },
+    };
+  };
+
+  it('should send the credentials and mode of the selected auth mode', async () => {
+    const context = createContext({
+      gatewayType: 'braintree',
+      authMode: 'blue',
+      additionalFields: {},
+      gatewayCredentials: {
+        mappingMode: 'defineBelow',
+        value: { merchant_id: 'm1', public_key: 'pk' },
+      },
+      gatewaySecretCredentials: { secretValues: [{ name: 'private_key', value: 'sk' }] },
+    });
+
+    await gatewayOperations.create.call(context, 0);
+
+    const request = context.helpers.httpRequest.mock.calls[1][0];
+    expect(request.body).toEqual({
+      gateway: {
+        gateway_type: 'braintree',
+        merchant_id: 'm1',
+        public_key: 'pk',
+        private_key: 'sk',
+        mode: 'blue',
+      },
+    });
+  });
+
+  it('should reject the Mode additional field for gateways with several auth modes', async () => {
+    const context = createContext({
+      gatewayType: 'braintree',
+      authMode: 'blue',
+      additionalFields: { mode: 'live' },
+      gatewayCredentials: {
+        mappingMode: 'defineBelow',
+        value: { merchant_id: 'm1', public_key: 'pk', private_key: 'sk' },
+      },
+    });
+
+    await expect(gatewayOperations.create.call(context, 0)).rejects.toThrow(
+      'The Mode additional field cannot be used with Braintree',
+    );
+    expect(context.helpers.httpRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not send a mode for gateways with a single auth mode', async () => {
+    const context = createContext({
+      gatewayType: 'stripe',
+      additionalFields: {},
+      gatewayCredentials: { mappingMode: 'defineBelow', value: { login: 'sk_test' } },
+    });
+
+    await gatewayOperations.create.call(context, 0);
+
+    expect(context.helpers.httpRequest.mock.calls[1][0].body.gateway).toEqual({
+      gateway_type: 'stripe',
+      login: 'sk_test',
+    });
+  });
+
+  it('should reject missing credentials before calling Spreedly', async () => {
+    const context = createContext({
+      gatewayType: 'adyen',
+      authMode: 'api_key',
+      additionalFields: {},
+      gatewayCredentials: {
+        mappingMode: 'defineBelow',
+        value: { api_key: 'key', merchant_account: '' },
+      },
+    });
+
+    await expect(gatewayOperations.create.call(context, 0)).rejects.toThrow(
+      'Missing Adyen credentials: Merchant Account',
+    );
+    expect(context.helpers.httpRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass legacy fields through for gateways missing from the catalog', async () => {
+    const context = createContext({
+      gatewayType: 'mollie',
+      additionalFields: { login: 'key' },
+      gatewayCredentials: { mappingMode: 'defineBelow', value: null },
+    });
+
+    await gatewayOperations.create.call(context, 0);
+
+    expect(context.helpers.httpRequest.mock.calls[1][0].body.gateway).toEqual({
+      gateway_type: 'mollie',
+      login: 'key',
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { SpreedlyPollingTrigger } from '../../nodes/Spreedly/SpreedlyPollingTrigger.node';
+
+function createPollContext(
+  parameters: Record<string, any>,
+  httpRequest: jest.Mock,
+  staticData: Record<string, any> = {},
+  mode = 'trigger',
+) {
+  return {
+    getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://core.spreedly.com/v1' }),
+    getNode: jest.fn().mockReturnValue({ name: 'Spreedly Polling Trigger' }),
+    getNodeParameter: jest.fn((name: string, fallback?: any) => parameters[name] ?? fallback),
+    getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
+    getMode: jest.fn().mockReturnValue(mode),
+    helpers: { httpRequest },
+  };
+}
+
+async function poll(context: ReturnType<typeof createPollContext>) {
+  return new SpreedlyPollingTrigger().poll.call(context as any);
+}
+
+describe('SpreedlyPollingTrigger', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should be registered in the package manifest', () => {
+    const { n8n } = require('../../package.json');
+    expect(n8n.nodes).toContain('dist/nodes/Spreedly/SpreedlyPollingTrigger.node.js');
+    expect(new SpreedlyPollingTrigger().description.polling).toBe(true);
+  });
+
+  it('should only record the newest transaction on the first poll', async () => {
+    const staticData: Record<string, any> = {};
+    const httpRequest = jest.fn().mockResolvedValue({ transactions: [{ token: 'txn9' }] });
+    const context = createPollContext({ resources: ['transaction'] }, httpRequest, staticData);
+
+    const result = await poll(context);
+
+    expect(result).toBeNull();
+    expect(staticData.transactionCursor).toBe('txn9');
+    expect(httpRequest.mock.calls[0][0].qs).toMatchObject({ order: 'desc', count: 1 });
+  });
+
+  it('should emit transactions after the cursor and advance past filtered ones', async () => {
+    const staticData: Record<string, any> = { transactionCursor: 'txn1' };
+    const httpRequest = jest
+      .fn()
+      .mockResolvedValueOnce({
+        transactions: [
+          { token: 'txn2', state: 'succeeded', succeeded: true, transaction_type: 'Purchase' },
+          { token: 'txn3', state: 'failed', succeeded: false, transaction_type: 'Purchase' },
+        ],
+      })
+      .mockResolvedValueOnce({ transactions: [] });
+    const context = createPollContext(
+      { resources: ['transaction'], transactionFilters: { states: ['succeeded'] } },
+      httpRequest,
+      staticData,
+    );
+
+    const result = await poll(context);
+
+    expect(httpRequest.mock.calls[0][0].qs).toMatchObject({ order: 'asc', since_token: 'txn1' });
+    expect(result![0]).toHaveLength(1);
+    expect(result![0][0].json).toMatchObject({
+      event: 'transaction.succeeded',
+      type: 'transaction',
+      data: { token: 'txn2' },
+    });
+    expect(staticData.transactionCursor).toBe('txn3');
+  });
+
+  it('should re-check pending transactions until they settle into a selected state', async () => {
+    const staticData: Record<string, any> = { transactionCursor: 'txn1' };
+    const parameters = {
+      resources: ['transaction'],
+      transactionFilters: { states: ['succeeded'], transactionTypes: ['Purchase'] },
+    };
+    const settled = { state: 'succeeded', succeeded: true };
+    const httpRequest = jest
+      .fn()
+      .mockResolvedValueOnce({
+        transactions: [
+          { token: 'txn2', state: 'pending', transaction_type: 'Purchase' },
+          { token: 'txn3', state: 'pending', transaction_type: 'Verification' },
+        ],
+      })
+      .mockResolvedValueOnce({ transactions: [] });
+
+    expect(await poll(createPollContext(parameters, httpRequest, staticData))).toBeNull();
+    expect(Object.keys(staticData.pendingTransactions)).toEqual(['txn2']);
+
+    httpRequest.mockReset().mockImplementation(async ({ url }) =>
+      url.endsWith('/transactions/txn2.json')
+        ? { transaction: { ...settled, token: 'txn2', transaction_type: 'Purchase' } }
+        : { transactions: [] },
+    );
+    const result = await poll(createPollContext(parameters, httpRequest, staticData));
+
+    expect(result![0][0].json).toMatchObject({
+      event: 'transaction.succeeded',
+      data: { token: 'txn2' },
+    });
+    expect(staticData.pendingTransactions).toEqual({});
+  });
+
+  it('should stop re-checking pending transactions after the limit', async () => {
+    const staticData: Record<string, any> = {
+      transactionCursor: 'txn1',
+      pendingTransactions: { txn2: Date.now() - 73 * 3600000 },
+    };
+    const httpRequest = jest.fn().mockResolvedValue({ transactions: [] });
+    const context = createPollContext(
+      { resources: ['transaction'], transactionFilters: { states: ['succeeded'] } },
+      httpRequest,
+      staticData,
+    );
+
+    await poll(context);
+
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+    expect(staticData.pendingTransactions).toEqual({});
+  });
+
+  it('should emit new and changed gateways by updated_at', async () => {
+    const staticData: Record<string, any> = {
+      gatewayVersions: { gw1: '2024-01-01T00:00:00Z', gw2: '2024-01-01T00:00:00Z' },
+    };
+    const httpRequest = jest
+      .fn()
+      .mockResolvedValueOnce({
+        gateways: [
+          { token: 'gw1', state: 'retained', updated_at: '2024-01-01T00:00:00Z' },
+          { token: 'gw2', state: 'redacted', updated_at: '2024-02-01T00:00:00Z' },
+          { token: 'gw3', state: 'retained', updated_at: '2024-02-02T00:00:00Z' },
+        ],
+      })
+      .mockResolvedValueOnce({ gateways: [] });
+    const context = createPollContext({ resources: ['gateway'] }, httpRequest, staticData);
+
+    const result = await poll(context);
+
+    expect(result![0].map((item) => item.json.event)).toEqual([
+      'gateway.redacted',
+      'gateway.retained',
+    ]);
+    expect(staticData.gatewayVersions.gw3).toBe('2024-02-02T00:00:00Z');
+  });
+
+  it('should redact emitted payment methods', async () => {
+    const staticData: Record<string, any> = { paymentMethodCursor: null };
+    const httpRequest = jest
+      .fn()
+      .mockResolvedValueOnce({
+        payment_methods: [
+          { token: 'pm1', storage_state: 'cached', number: '4111111111111111', cvv: '123' },
+        ],
+      })
+      .mockResolvedValueOnce({ payment_methods: [] });
+    const context = createPollContext({ resources: ['paymentMethod'] }, httpRequest, staticData);
+
+    const result = await poll(context);
+
+    expect(httpRequest.mock.calls[0][0].qs.since_token).toBeUndefined();
+    expect(result![0][0].json).toMatchObject({
+      event: 'payment_method.added',
+      data: { number: '****1111' },
+    });
+    expect((result![0][0].json.data as any).cvv).toBeUndefined();
+  });
+
+  it('should show the latest record without moving the cursor in manual mode', async () => {
+    const staticData: Record<string, any> = { transactionCursor: 'txn1' };
+    const httpRequest = jest.fn().mockResolvedValue({
+      transactions: [{ token: 'txn5', state: 'succeeded', succeeded: true }],
+    });
+    const context = createPollContext(
+      { resources: ['transaction'] },
+      httpRequest,
+      staticData,
+      'manual',
+    );
+
+    const result = await poll(context);
+
+    expect(result![0][0].json.data).toMatchObject({ token: 'txn5' });
+    expect(staticData.transactionCursor).toBe('txn1');
+  });
+});
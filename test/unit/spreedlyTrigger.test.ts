@@ -0,0 +1,445 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHmac } from 'crypto';
+import { SpreedlyTrigger } from '../../nodes/Spreedly/SpreedlyTrigger.node';
+import { WEBHOOK_EVENT_TYPES } from '../../nodes/Spreedly/constants';
+
+const ALL_EVENTS = WEBHOOK_EVENT_TYPES.map((event) => event.value);
+
+function createWebhookContext(
+  body: Record<string, any>,
+  parameters: Record<string, any> = {},
+  headers: Record<string, string> = {},
+  credentials: Record<string, any> = {},
+  staticData: Record<string, any> = {},
+) {
+  const response = {
+    status: jest.fn().mockReturnThis(),
+    send: jest.fn().mockReturnThis(),
+    end: jest.fn().mockReturnThis(),
+  };
+  const params: Record<string, any> = {
+    events: ALL_EVENTS,
+    signatureVerification: 'off',
+    ...parameters,
+  };
+
+  return {
+    response,
+    context: {
+      getBodyData: jest.fn().mockReturnValue(body),
+      getHeaderData: jest.fn().mockReturnValue(headers),
+      getRequestObject: jest.fn().mockReturnValue({ rawBody: Buffer.from(JSON.stringify(body)) }),
+      getResponseObject: jest.fn().mockReturnValue(response),
+      getCredentials: jest.fn().mockResolvedValue({ signingSecret: 'secret', ...credentials }),
+      getNode: jest.fn().mockReturnValue({ name: 'Spreedly Trigger' }),
+      getNodeParameter: jest.fn((name: string, fallback?: any) => params[name] ?? fallback),
+      getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
+    },
+  };
+}
+
+async function runWebhook(
+  body: Record<string, any>,
+  parameters?: Record<string, any>,
+  headers?: Record<string, string>,
+) {
+  const { context, response } = createWebhookContext(body, parameters, headers);
+  const result = await new SpreedlyTrigger().webhook.call(context as any);
+  return { result, response };
+}
+
+async function eventFor(body: Record<string, any>): Promise<string> {
+  // An empty selection lets unknown events through as well
+  const { result } = await runWebhook(body, { events: [] });
+  return result.workflowData![0][0].json.event as string;
+}
+
+describe('SpreedlyTrigger', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('Node Definition', () => {
+    it('should be registered in the package manifest', () => {
+      const { n8n } = require('../../package.json');
+      expect(n8n.nodes).toContain('dist/nodes/Spreedly/SpreedlyTrigger.node.js');
+    });
+
+    it('should expose a POST webhook', () => {
+      const { description } = new SpreedlyTrigger();
+      expect(description.name).toBe('spreedlyTrigger');
+      expect(description.webhooks![0].httpMethod).toBe('POST');
+    });
+  });
+
+  describe('Event mapping', () => {
+    it('should map transactions', async () => {
+      expect(await eventFor({ transaction: { succeeded: true } })).toBe('transaction.succeeded');
+      expect(await eventFor({ transaction: { succeeded: false } })).toBe('transaction.failed');
+      expect(await eventFor({ transaction: { state: 'pending' } })).toBe('transaction.pending');
+      expect(await eventFor({ transaction: { state: 'processing' } })).toBe('unknown');
+    });
+
+    it('should map payment methods', async () => {
+      const event = (storage_state?: string) => eventFor({ payment_method: { storage_state } });
+      expect(await event('retained')).toBe('payment_method.retained');
+      expect(await event('redacted')).toBe('payment_method.redacted');
+      expect(await event('cached')).toBe('payment_method.added');
+      expect(await event('used')).toBe('payment_method.updated');
+    });
+
+    it('should map gateways', async () => {
+      expect(await eventFor({ gateway: { state: 'retained' } })).toBe('gateway.retained');
+      expect(await eventFor({ gateway: { state: 'redacted' } })).toBe('gateway.redacted');
+      expect(await eventFor({ gateway: { state: 'created' } })).toBe('gateway.added');
+    });
+
+    it('should map receivers', async () => {
+      expect(await eventFor({ receiver: { state: 'redacted' } })).toBe('receiver.redacted');
+      expect(await eventFor({ receiver: { state: 'retained' } })).toBe('receiver.added');
+    });
+
+    it('should map certificates', async () => {
+      expect(await eventFor({ certificate: { token: 'cert123' } })).toBe('certificate.added');
+    });
+
+    it('should fall back to unknown for unrecognised payloads', async () => {
+      const { result } = await runWebhook({ something: 'else' }, { events: [] });
+      const item = result.workflowData![0][0].json;
+      expect(item.event).toBe('unknown');
+      expect(item.type).toBe('unknown');
+      expect(item.data).toEqual({ something: 'else' });
+    });
+
+    it('should only map to known event types or unknown', async () => {
+      const bodies = [
+        { transaction: { succeeded: true } },
+        { payment_method: { storage_state: 'cached' } },
+        { gateway: {} },
+        { receiver: {} },
+        { certificate: {} },
+      ];
+      for (const body of bodies) {
+        expect(ALL_EVENTS).toContain(await eventFor(body));
+      }
+    });
+  });
+
+  describe('Event filter', () => {
+    it('should skip events that are not selected', async () => {
+      const { result } = await runWebhook(
+        { transaction: { succeeded: false } },
+        { events: ['transaction.succeeded'] },
+      );
+      expect(result.workflowData).toEqual([[]]);
+    });
+
+    it('should skip unknown events when specific events are selected', async () => {
+      const { result } = await runWebhook({ something: 'else' });
+      expect(result.workflowData).toEqual([[]]);
+    });
+
+    it('should pass every event when no events are selected', async () => {
+      const { result } = await runWebhook({ something: 'else' }, { events: [] });
+      expect(result.workflowData![0]).toHaveLength(1);
+    });
+  });
+
+  describe('Signature verification', () => {
+    // A transaction callback as parsed from Spreedly's XML, signed with the secret 'secret'
+    const signedCallback = {
+      transaction: {
+        token: 'LKA3RchoqYO0njAfhHVw60ohjrC',
+        amount: { _: '100', $: { type: 'integer' } },
+        currency_code: 'USD',
+        on_test_gateway: { _: 'true', $: { type: 'boolean' } },
+        created_at: { _: '2024-03-01T10:00:00Z', $: { type: 'dateTime' } },
+        updated_at: { _: '2024-03-01T10:00:05Z', $: { type: 'dateTime' } },
+        succeeded: { _: 'true', $: { type: 'boolean' } },
+        state: 'succeeded',
+        transaction_type: 'Purchase',
+        order_id: { $: { nil: 'true' } },
+        ip: { $: { nil: 'true' } },
+        callback_url: 'https://example.com/spreedly',
+        signed: {
+          signature: 'cda36fe3279564b0ff1e443224a4b0881b161389',
+          fields:
+            'amount callback_url created_at currency_code ip on_test_gateway order_id state succeeded token transaction_type updated_at',
+          algorithm: 'sha1',
+        },
+      },
+    };
+    const parameters = { events: [], signatureVerification: 'reject' };
+    const tampered = {
+      transaction: { ...signedCallback.transaction, token: 'txn2' },
+    };
+
+    it('should accept a record with a valid signed block', async () => {
+      const { result } = await runWebhook(signedCallback, parameters);
+      expect(result.workflowData![0][0].json.signatureVerified).toBe(true);
+    });
+
+    it('should reject a record whose signed fields were changed with 401', async () => {
+      const { result, response } = await runWebhook(tampered, parameters);
+      expect(result.noWebhookResponse).toBe(true);
+      expect(response.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should reject a batch when any record fails', async () => {
+      const batch = { transactions: [signedCallback.transaction, tampered.transaction] };
+      const { response } = await runWebhook(batch, parameters);
+      expect(response.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should tag each record of a batch', async () => {
+      const batch = { transactions: [signedCallback.transaction, tampered.transaction] };
+      const { result } = await runWebhook(batch, { ...parameters, signatureVerification: 'tag' });
+      expect(result.workflowData![0].map((item) => item.json.signatureVerified)).toEqual([
+        true,
+        false,
+      ]);
+    });
+
+    it('should tag unsigned callbacks as unverified', async () => {
+      const { result } = await runWebhook(
+        { transaction: { succeeded: true } },
+        { signatureVerification: 'tag' },
+      );
+      expect(result.workflowData![0][0].json.signatureVerified).toBe(false);
+    });
+
+    it('should reject callbacks with a clear message when there is no signing secret', async () => {
+      const { context, response } = createWebhookContext(
+        signedCallback,
+        { signatureVerification: 'reject' },
+        {},
+        { signingSecret: '' },
+      );
+      await new SpreedlyTrigger().webhook.call(context as any);
+      expect(response.status).toHaveBeenCalledWith(401);
+      expect(response.send).toHaveBeenCalledWith(expect.stringContaining('no Signing Secret'));
+    });
+
+    it('should refuse to activate in reject mode without a signing secret', async () => {
+      const hooks = new SpreedlyTrigger().webhookMethods.default;
+      const activate = (signatureVerification: string) => {
+        const parameters = { signatureVerification };
+        const { context } = createWebhookContext({}, parameters, {}, { signingSecret: '' });
+        return hooks.create.call(context as any);
+      };
+
+      await expect(activate('reject')).rejects.toThrow('no Signing Secret');
+      await expect(activate('tag')).resolves.toBe(true);
+    });
+
+    it('should keep verification off for version 1 nodes', () => {
+      const properties = new SpreedlyTrigger().description.properties.filter(
+        (property) => property.name === 'signatureVerification',
+      );
+      const defaultFor = (version: number) =>
+        properties.find((property) =>
+          (property.displayOptions!.show!['@version'] as number[]).includes(version),
+        )!.default;
+      expect(defaultFor(1)).toBe('off');
+      expect(defaultFor(2)).toBe('reject');
+    });
+  });
+
+  describe('Redaction', () => {
+    const body = {
+      transaction: {
+        succeeded: true,
+        payment_method: { number: '4111111111111111', verification_value: '123' },
+      },
+    };
+
+    it('should redact the parsed data and the raw payload by default', async () => {
+      const { result } = await runWebhook(body);
+      const { json } = result.workflowData![0][0];
+
+      expect(JSON.stringify(json)).not.toContain('4111111111111111');
+      expect(JSON.stringify(json)).not.toContain('verification_value');
+      expect((json.raw as any).transaction.payment_method.number).toBe('****1111');
+    });
+
+    it('should refuse to turn off redaction without sandbox credentials', async () => {
+      await expect(runWebhook(body, { redactSensitiveData: false })).rejects.toThrow(
+        'sandbox credentials',
+      );
+    });
+
+    it('should allow unredacted output with sandbox credentials', async () => {
+      const { context } = createWebhookContext(
+        body,
+        { redactSensitiveData: false },
+        {},
+        { sandboxOnly: true },
+      );
+      const result = await new SpreedlyTrigger().webhook.call(context as any);
+
+      expect((result.workflowData![0][0].json.raw as any).transaction.payment_method.number).toBe(
+        '4111111111111111',
+      );
+    });
+  });
+
+  describe('Deduplication', () => {
+    const succeeded = {
+      transaction: {
+        token: 'txn1',
+        state: 'succeeded',
+        succeeded: true,
+        updated_at: '2024-03-01T10:00:05Z',
+      },
+    };
+    const pending = {
+      transaction: { token: 'txn1', state: 'pending', updated_at: '2024-03-01T10:00:00Z' },
+    };
+
+    async function deliver(
+      body: Record<string, any>,
+      staticData: Record<string, any>,
+      options: Record<string, any> = {},
+    ) {
+      const { context } = createWebhookContext(body, { options }, {}, {}, staticData);
+      const result = await new SpreedlyTrigger().webhook.call(context as any);
+      return result.workflowData![0];
+    }
+
+    it('should skip a redelivered callback for the same token and version', async () => {
+      const staticData: Record<string, any> = {};
+
+      expect(await deliver(succeeded, staticData)).toHaveLength(1);
+      expect(await deliver(succeeded, staticData)).toHaveLength(0);
+      expect(staticData.processedEvents['transaction:txn1']).toMatchObject({
+        version: '2024-03-01T10:00:05Z|succeeded',
+      });
+    });
+
+    it('should pass a new version of the same record', async () => {
+      const staticData: Record<string, any> = {};
+
+      await deliver(pending, staticData);
+
+      expect(await deliver(succeeded, staticData)).toHaveLength(1);
+    });
+
+    it('should deliver duplicates again once the window has passed', async () => {
+      const staticData: Record<string, any> = {
+        processedEvents: {
+          'transaction:txn1': {
+            version: '2024-03-01T10:00:05Z|succeeded',
+            seenAt: Date.now() - 11 * 60000,
+          },
+        },
+      };
+
+      expect(await deliver(succeeded, staticData, { deduplicationWindow: 10 })).toHaveLength(1);
+    });
+
+    it('should allow duplicates when deduplication is off', async () => {
+      const staticData: Record<string, any> = {};
+
+      await deliver(succeeded, staticData, { deduplicate: false });
+
+      expect(await deliver(succeeded, staticData, { deduplicate: false })).toHaveLength(1);
+    });
+
+    it('should drop events older than an already processed state', async () => {
+      const staticData: Record<string, any> = {};
+
+      await deliver(succeeded, staticData, { dropStaleEvents: true });
+
+      expect(await deliver(pending, staticData, { dropStaleEvents: true })).toHaveLength(0);
+      expect(await deliver(pending, staticData)).toHaveLength(1);
+    });
+
+    it('should not let unverified deliveries suppress signed ones', async () => {
+      const staticData: Record<string, any> = {};
+      const fields = 'token state updated_at';
+      const { token, state, updated_at } = succeeded.transaction;
+      const signature = createHmac('sha1', 'secret')
+        .update([token, state, updated_at].join('|'))
+        .digest('hex');
+      const tagged = async (signed: Record<string, string>) => {
+        const body = { transaction: { ...succeeded.transaction, signed: { fields, ...signed } } };
+        const parameters = { signatureVerification: 'tag', options: { dropStaleEvents: true } };
+        const { context } = createWebhookContext(body, parameters, {}, {}, staticData);
+        const result = await new SpreedlyTrigger().webhook.call(context as any);
+        return result.workflowData![0];
+      };
+
+      const forged = await tagged({ signature: 'forged' });
+      expect(forged[0].json.signatureVerified).toBe(false);
+      expect(staticData.processedEvents).toEqual({});
+
+      const genuine = await tagged({ signature });
+      expect(genuine).toHaveLength(1);
+      expect(genuine[0].json.signatureVerified).toBe(true);
+    });
+
+    it('should compare states when timestamps are missing', async () => {
+      const staticData: Record<string, any> = {};
+      const options = { dropStaleEvents: true };
+      const retained = { payment_method: { token: 'pm1', storage_state: 'retained' } };
+      const cached = { payment_method: { token: 'pm1', storage_state: 'cached' } };
+
+      await deliver(retained, staticData, options);
+
+      expect(await deliver(cached, staticData, options)).toHaveLength(0);
+    });
+  });
+
+  describe('Batched callbacks', () => {
+    const batch = {
+      batch_id: 'batch1',
+      transactions: [
+        { token: 'txn1', succeeded: true },
+        { token: 'txn2', succeeded: false },
+        { token: 'txn3', succeeded: true },
+      ],
+    };
+
+    it('should output one item per transaction with the batch ID', async () => {
+      const { result } = await runWebhook(batch);
+      const items = result.workflowData![0].map((item) => item.json);
+
+      expect(items.map((item) => item.event)).toEqual([
+        'transaction.succeeded',
+        'transaction.failed',
+        'transaction.succeeded',
+      ]);
+      expect(items.every((item) => item.batchId === 'batch1')).toBe(true);
+      expect(items.map((item) => item.batchIndex)).toEqual([0, 1, 2]);
+      expect(items[1].raw).toEqual({ transaction: batch.transactions[1] });
+    });
+
+    it('should apply the event filter to each transaction', async () => {
+      const { result } = await runWebhook(batch, { events: ['transaction.succeeded'] });
+
+      expect(result.workflowData![0].map((item) => (item.json.data as any).token)).toEqual([
+        'txn1',
+        'txn3',
+      ]);
+    });
+
+    it('should skip redelivered records within later batches', async () => {
+      const staticData: Record<string, any> = {};
+      const deliver = async (body: Record<string, any>) => {
+        const { context } = createWebhookContext(body, {}, {}, {}, staticData);
+        const result = await new SpreedlyTrigger().webhook.call(context as any);
+        return result.workflowData![0].map((item) => (item.json.data as any).token);
+      };
+
+      await deliver({ transactions: batch.transactions.slice(0, 2) });
+
+      expect(await deliver(batch)).toEqual(['txn3']);
+    });
+  });
+});
@@ -0,0 +1,535 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  transactionOperations,
+  withTransactionOutcome,
+  getNetworkTransactionId,
+} from '../../nodes/Spreedly/actions/transaction';
+import { SpreedlyApiError, SpreedlyTransactionError } from '../../nodes/Spreedly/errors';
+import { Spreedly } from '../../nodes/Spreedly/Spreedly.node';
+import { createContext } from './helpers';
+
+const purchaseParameters = {
+  gatewayToken: 'gw1',
+  paymentMethodToken: 'pm1',
+  amount: 10,
+  currency: 'USD',
+  transactionAdditionalFields: { order_id: 'ORDER-1' },
+};
+
+describe('Transaction Operations', () => {
+  describe('purchase idempotency', () => {
+    it('should reuse an existing transaction with the same order ID', async () => {
+      const existing = {
+        token: 'txn1',
+        transaction_type: 'Purchase',
+        state: 'succeeded',
+        order_id: 'ORDER-1',
+        amount: 1000,
+        currency_code: 'USD',
+        payment_method: { token: 'pm1' },
+      };
+      const httpRequest = jest.fn().mockResolvedValueOnce({ transactions: [existing] });
+      const context = createContext({ ...purchaseParameters, idempotencyMode: 'orderId' }, httpRequest);
+
+      const [result] = await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+      expect(httpRequest.mock.calls[0][0].method).toBe('GET');
+      expect(result.json.token).toBe('txn1');
+      expect(result.json.idempotency).toEqual({
+        mode: 'orderId',
+        key: 'ORDER-1',
+        decision: 'reused',
+        existingTransactionToken: 'txn1',
+      });
+    });
+
+    it('should charge when only failed attempts exist', async () => {
+      const failed = {
+        token: 'txn0',
+        transaction_type: 'Purchase',
+        state: 'failed',
+        order_id: 'ORDER-1',
+      };
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ transactions: [failed] })
+        .mockResolvedValueOnce({ transactions: [] })
+        .mockResolvedValueOnce({ transaction: { token: 'txn2', succeeded: true } });
+      const context = createContext({ ...purchaseParameters, idempotencyMode: 'orderId' }, httpRequest);
+
+      const [result] = await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest.mock.calls[2][0].method).toBe('POST');
+      expect(result.json.token).toBe('txn2');
+      expect((result.json.idempotency as any).decision).toBe('created');
+    });
+
+    it('should refuse to reuse a key for a different amount', async () => {
+      const existing = {
+        token: 'txn1',
+        transaction_type: 'Purchase',
+        state: 'succeeded',
+        order_id: 'ORDER-1',
+        amount: 500,
+        currency_code: 'USD',
+        payment_method: { token: 'pm1' },
+      };
+      const httpRequest = jest.fn().mockResolvedValueOnce({ transactions: [existing] });
+      const context = createContext({ ...purchaseParameters, idempotencyMode: 'orderId' }, httpRequest);
+
+      await expect(transactionOperations.purchase.call(context as any, 0)).rejects.toThrow(
+        'different amount',
+      );
+    });
+  });
+
+  describe('purchase metadata', () => {
+    it('should send metadata pairs alongside the idempotency key', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ transactions: [] })
+        .mockResolvedValueOnce({ transaction: { token: 'txn5', succeeded: true } });
+      const context = createContext(
+        {
+          ...purchaseParameters,
+          idempotencyMode: 'customKey',
+          idempotencyKey: 'key-1',
+          metadata: { metadataValues: [{ key: 'tenant_id', value: 't1' }] },
+        },
+        httpRequest,
+      );
+
+      await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest.mock.calls[1][0].body.transaction.metadata).toEqual({
+        tenant_id: 't1',
+        idempotency_key: 'key-1',
+        n8n_request_id: expect.any(String),
+      });
+    });
+  });
+
+  describe('stored credentials', () => {
+    it('should carry the network transaction ID forward from a referenced transaction', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ transaction: { token: 'txn0', network_transaction_id: 'NTID-1' } })
+        .mockResolvedValueOnce({ transaction: { token: 'txn6', succeeded: true } });
+      const context = createContext(
+        {
+          ...purchaseParameters,
+          storedCredential: {
+            initiator: 'merchant',
+            reasonType: 'recurring',
+            sequence: 'subsequent',
+            previousTransactionToken: 'txn0',
+          },
+        },
+        httpRequest,
+      );
+
+      const [result] = await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest.mock.calls[0][0].url).toContain('/transactions/txn0.json');
+      expect(httpRequest.mock.calls[1][0].body.transaction).toMatchObject({
+        stored_credential_initiator: 'merchant',
+        stored_credential_reason_type: 'recurring',
+        stored_credential_initial_transaction: false,
+        stored_credential_network_transaction_id: 'NTID-1',
+      });
+      expect(result.json.storedCredential).toMatchObject({
+        networkTransactionId: 'NTID-1',
+        networkTransactionIdSource: 'referenced',
+      });
+    });
+
+    it('should flag initial customer-initiated transactions without a lookup', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ transaction: { token: 'txn7', succeeded: true } });
+      const context = createContext(
+        {
+          ...purchaseParameters,
+          storedCredential: { initiator: 'cardholder', reasonType: 'unscheduled', sequence: 'initial' },
+        },
+        httpRequest,
+      );
+
+      await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+      expect(httpRequest.mock.calls[0][0].body.transaction.stored_credential_initial_transaction).toBe(
+        true,
+      );
+    });
+
+    it('should require an initiator and reason type', async () => {
+      const context = createContext(
+        { ...purchaseParameters, storedCredential: { sequence: 'initial' } },
+        jest.fn(),
+      );
+
+      await expect(transactionOperations.purchase.call(context as any, 0)).rejects.toThrow(
+        'Initiator and a Reason Type',
+      );
+    });
+
+    it('should read network transaction IDs from gateway response fields', () => {
+      expect(
+        getNetworkTransactionId({
+          gateway_specific_response_fields: { stripe: { network_transaction_id: 'NTID-2' } },
+        }),
+      ).toBe('NTID-2');
+    });
+  });
+
+  describe('gateway specific fields', () => {
+    it('should key fields by the gateway type of the selected gateway', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ gateway: { token: 'gw1', gateway_type: 'adyen' } })
+        .mockResolvedValueOnce({ transaction: { token: 'txn8', succeeded: true } });
+      const context = createContext(
+        {
+          ...purchaseParameters,
+          gatewaySpecificFields: {
+            fieldValues: [{ key: 'shopper_reference', value: 'customer-1' }],
+          },
+          gatewaySpecificFieldsJson: '{"shopper_interaction": "ContAuth"}',
+        },
+        httpRequest,
+      );
+
+      await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest.mock.calls[0][0].url).toContain('/gateways/gw1.json');
+      expect(httpRequest.mock.calls[1][0].body.transaction.gateway_specific_fields).toEqual({
+        adyen: { shopper_interaction: 'ContAuth', shopper_reference: 'customer-1' },
+      });
+    });
+
+    it('should accept JSON keyed by gateway type and resolve the type once', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ gateway: { token: 'gw1', gateway_type: 'stripe' } })
+        .mockResolvedValue({ transaction: { token: 'txn9', succeeded: true } });
+      const context = createContext(
+        {
+          ...purchaseParameters,
+          gatewaySpecificFieldsJson: { stripe: { statement_descriptor: 'ACME' } },
+        },
+        httpRequest,
+      );
+
+      await transactionOperations.purchase.call(context as any, 0);
+      await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest).toHaveBeenCalledTimes(3);
+      expect(httpRequest.mock.calls[2][0].body.transaction.gateway_specific_fields).toEqual({
+        stripe: { statement_descriptor: 'ACME' },
+      });
+    });
+
+    it('should send only the entry for the resolved type of keyed JSON', async () => {
+      const gatewaySpecificFieldsJson = {
+        adyen: { shopper_interaction: 'ContAuth' },
+        stripe: { statement_descriptor: 'ACME' },
+      };
+      const purchase = async (gatewayType: string) => {
+        const httpRequest = jest
+          .fn()
+          .mockResolvedValueOnce({ gateway: { token: 'gw1', gateway_type: gatewayType } })
+          .mockResolvedValueOnce({ transaction: { token: 'txn11', succeeded: true } });
+        const parameters = { ...purchaseParameters, gatewaySpecificFieldsJson };
+        await transactionOperations.purchase.call(createContext(parameters, httpRequest) as any, 0);
+        return httpRequest.mock.calls[1][0].body.transaction.gateway_specific_fields;
+      };
+
+      expect(await purchase('adyen')).toEqual({ adyen: { shopper_interaction: 'ContAuth' } });
+      expect(await purchase('braintree')).toBeUndefined();
+    });
+
+    it('should not look up the gateway without fields', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ transaction: { token: 'txn10', succeeded: true } });
+      const context = createContext(purchaseParameters, httpRequest);
+
+      await transactionOperations.purchase.call(context as any, 0);
+
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+      expect(httpRequest.mock.calls[0][0].body.transaction.gateway_specific_fields).toBeUndefined();
+    });
+  });
+
+  describe('purchase with failover', () => {
+    const failoverParameters = {
+      ...purchaseParameters,
+      failoverGateways: {
+        gatewayValues: [{ gatewayToken: 'gw1' }, { gatewayToken: 'gw2' }, { gatewayToken: 'gw3' }],
+      },
+    };
+    const gatewayFailure = (transaction: Record<string, any>) => ({
+      response: { status: 422, data: { transaction: { succeeded: false, ...transaction } } },
+    });
+
+    it('should try the next gateway after a processing failure and return the chain', async () => {
+      const outage = gatewayFailure({ token: 'txn1', state: 'gateway_processing_failed' });
+      const httpRequest = jest
+        .fn()
+        .mockRejectedValueOnce(outage)
+        .mockResolvedValueOnce({
+          transaction: { token: 'txn2', state: 'succeeded', succeeded: true },
+        });
+      const context = createContext(failoverParameters, httpRequest);
+
+      const [result] = await transactionOperations.purchaseWithFailover.call(context as any, 0);
+
+      expect(httpRequest.mock.calls.map(([options]) => options.url)).toEqual([
+        'https://core.spreedly.com/v1/gateways/gw1/purchase.json',
+        'https://core.spreedly.com/v1/gateways/gw2/purchase.json',
+      ]);
+      expect(httpRequest.mock.calls[1][0].body.transaction).toMatchObject({
+        payment_method_token: 'pm1',
+        amount: 1000,
+        order_id: 'ORDER-1',
+      });
+      expect(result.json.token).toBe('txn2');
+      expect(result.json.failover).toEqual({
+        gatewayToken: 'gw2',
+        attempts: [
+          expect.objectContaining({
+            gatewayToken: 'gw1',
+            transactionToken: 'txn1',
+            state: 'gateway_processing_failed',
+            errorCategory: 'gatewayError',
+            failedOver: true,
+          }),
+          expect.objectContaining({
+            gatewayToken: 'gw2',
+            transactionToken: 'txn2',
+            succeeded: true,
+            failedOver: false,
+          }),
+        ],
+      });
+    });
+
+    it('should not try another gateway after a decline', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockRejectedValueOnce(gatewayFailure({ token: 'txn1', state: 'failed' }));
+      const context = createContext(failoverParameters, httpRequest);
+
+      const promise = transactionOperations.purchaseWithFailover.call(context as any, 0);
+
+      await expect(promise).rejects.toBeInstanceOf(SpreedlyApiError);
+      await expect(promise).rejects.toMatchObject({
+        category: 'gatewayDecline',
+        transaction: { token: 'txn1', failover: { gatewayToken: 'gw1' } },
+      });
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not try another gateway when the result is unknown', async () => {
+      const httpRequest = jest.fn().mockResolvedValueOnce({
+        transaction: { token: 'txn1', state: 'gateway_processing_result_unknown' },
+      });
+      const context = createContext(failoverParameters, httpRequest);
+
+      const [result] = await transactionOperations.purchaseWithFailover.call(context as any, 0);
+
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+      expect((result.json.failover as any).attempts).toHaveLength(1);
+    });
+
+    it('should return the last failure once every gateway failed to process', async () => {
+      const httpRequest = jest.fn().mockResolvedValue({
+        transaction: { token: 'txn', state: 'gateway_processing_failed', succeeded: false },
+      });
+      const context = createContext(failoverParameters, httpRequest);
+
+      const [result] = await transactionOperations.purchaseWithFailover.call(context as any, 0);
+
+      expect(httpRequest).toHaveBeenCalledTimes(3);
+      expect((result.json.failover as any).gatewayToken).toBe('gw3');
+      expect(
+        (result.json.failover as any).attempts.map((attempt: any) => attempt.failedOver),
+      ).toEqual([true, true, false]);
+    });
+
+    it('should require at least one gateway', async () => {
+      const context = createContext({ ...purchaseParameters, failoverGateways: {} }, jest.fn());
+
+      await expect(
+        transactionOperations.purchaseWithFailover.call(context as any, 0),
+      ).rejects.toThrow('Add at least one gateway to try');
+    });
+  });
+
+  describe('list', () => {
+    const createdAt = (day: number) => `2026-10-${String(day).padStart(2, '0')}T12:00:00Z`;
+
+    it('should list newest first when Created After is set without an order', async () => {
+      const httpRequest = jest.fn().mockResolvedValueOnce({
+        transactions: [
+          { token: 'txn3', state: 'failed', created_at: createdAt(18) },
+          { token: 'txn2', state: 'succeeded', created_at: createdAt(18) },
+          { token: 'txn1', state: 'failed', created_at: createdAt(17) },
+        ],
+      });
+      const context = createContext(
+        {
+          returnAll: true,
+          transactionFilters: { states: ['failed'], createdAfter: '2026-10-18T00:00:00Z' },
+        },
+        httpRequest,
+      );
+
+      const result = await transactionOperations.list.call(context as any, 0);
+
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+      expect(httpRequest.mock.calls[0][0].qs.order).toBe('desc');
+      expect(result.map((item) => item.json.token)).toEqual(['txn3']);
+    });
+
+    it('should fail when Max Pages cuts a filtered scan short', async () => {
+      const httpRequest = jest.fn().mockImplementation(async (options: any) => ({
+        transactions: [
+          {
+            token: `${options.qs.since_token ?? ''}x`,
+            state: 'succeeded',
+            created_at: createdAt(1),
+          },
+        ],
+      }));
+      const context = createContext(
+        {
+          returnAll: true,
+          listOptions: { maxPages: 3, order: 'asc' },
+          transactionFilters: { states: ['failed'], createdAfter: '2026-10-18T00:00:00Z' },
+        },
+        httpRequest,
+      );
+
+      await expect(transactionOperations.list.call(context as any, 0)).rejects.toThrow(
+        'Stopped at Max Pages before every transaction matching the filters was found',
+      );
+      expect(httpRequest).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('failed transaction handling', () => {
+    const declined = {
+      token: 'txn3',
+      state: 'failed',
+      succeeded: false,
+      response: {
+        message: 'Insufficient funds',
+        error_code: '51',
+        avs_code: 'N',
+        cvv_code: 'M',
+      },
+    };
+
+    it('should attach a normalized outcome', async () => {
+      const context = createContext({ failedTransactionHandling: 'passThrough' }, jest.fn());
+
+      const [result] = await withTransactionOutcome.call(context as any, 0, async () => [
+        { json: declined },
+      ]);
+
+      expect(result.json.outcome).toMatchObject({
+        status: 'failed',
+        succeeded: false,
+        message: 'Insufficient funds',
+        errorCode: '51',
+        avsCode: 'N',
+        cvvCode: 'M',
+      });
+    });
+
+    it('should return the transaction from a 422 when routing failures', async () => {
+      const context = createContext({ failedTransactionHandling: 'separateOutput' }, jest.fn());
+      const error = new SpreedlyApiError(
+        { name: 'Spreedly' } as any,
+        { message: 'Unprocessable' },
+        422,
+        { transaction: declined },
+      );
+
+      const [result] = await withTransactionOutcome.call(context as any, 0, async () => {
+        throw error;
+      });
+
+      expect(result.json.token).toBe('txn3');
+      expect((result.json.outcome as any).status).toBe('failed');
+    });
+
+    it('should raise a typed error for declines', async () => {
+      const context = createContext({ failedTransactionHandling: 'throwError' }, jest.fn());
+
+      const promise = withTransactionOutcome.call(context as any, 0, async () => [
+        { json: declined },
+      ]);
+
+      await expect(promise).rejects.toBeInstanceOf(SpreedlyTransactionError);
+      await expect(promise).rejects.toMatchObject({ category: 'gatewayDecline' });
+    });
+
+    it('should not categorize unknown results as declines', async () => {
+      const context = createContext({ failedTransactionHandling: 'throwError' }, jest.fn());
+
+      const promise = withTransactionOutcome.call(context as any, 0, async () => [
+        { json: { token: 'txn5', state: 'gateway_processing_result_unknown', succeeded: false } },
+      ]);
+
+      await expect(promise).rejects.toMatchObject({ category: 'unknownResult' });
+    });
+
+    it('should route error items to the Failed output', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockRejectedValue(
+          Object.assign(new Error('HTTP 500'), { response: { status: 500, headers: {}, data: {} } }),
+        );
+      const context = {
+        ...createContext(
+          {
+            ...purchaseParameters,
+            resource: 'transaction',
+            operation: 'purchase',
+            failedTransactionHandling: 'separateOutput',
+            requestOptions: { maxAttempts: 1 },
+          },
+          httpRequest,
+        ),
+        continueOnFail: jest.fn().mockReturnValue(true),
+      };
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const [succeeded, failed] = await new Spreedly().execute.call(context as any);
+
+      expect(succeeded).toEqual([]);
+      expect(failed).toHaveLength(1);
+      expect(failed[0].json).toMatchObject({ errorCategory: 'server' });
+    });
+
+    it('should not raise for succeeded transactions', async () => {
+      const context = createContext({ failedTransactionHandling: 'throwError' }, jest.fn());
+
+      const [result] = await withTransactionOutcome.call(context as any, 0, async () => [
+        { json: { token: 'txn4', state: 'succeeded', succeeded: true } },
+      ]);
+
+      expect((result.json.outcome as any).status).toBe('succeeded');
+    });
+  });
+});